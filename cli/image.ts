@@ -0,0 +1,84 @@
+import type Sharp from "sharp";
+import { BlurMask } from "../src/lib/blurConfig";
+import { ExportFormat } from "../src/lib/export";
+
+export interface RawImage {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+  // Format of the file it was read from, if it is one we can write too
+  format?: ExportFormat;
+}
+
+const SHARP_FORMATS: Record<string, ExportFormat> = {
+  png: "png",
+  jpeg: "jpeg",
+  webp: "webp",
+};
+
+// sharp is an optional dependency, installs of just the library skip it, so
+// it's only loaded once the CLI actually reads or writes an image
+let sharpModule: Promise<typeof Sharp> | null = null;
+function loadSharp() {
+  sharpModule ??= import("sharp").then(
+    (module) => module.default,
+    () => {
+      throw new Error(
+        "Reading and writing images needs sharp, install it with npm install sharp."
+      );
+    }
+  );
+  return sharpModule;
+}
+
+// Decode an image file into RGBA pixels, honoring its EXIF orientation
+export async function readImage(file: string): Promise<RawImage> {
+  const sharp = await loadSharp();
+  const image = sharp(file).rotate();
+  const { format } = await image.metadata();
+  const { data, info } = await image
+    .ensureAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  return {
+    data: new Uint8ClampedArray(data.buffer, data.byteOffset, data.length),
+    width: info.width,
+    height: info.height,
+    format: format ? SHARP_FORMATS[format] : undefined,
+  };
+}
+
+// Load a grayscale image as a blur mask: white = full blur, black = sharp.
+// Transparent areas count as black, like importing a mask in the app.
+export async function readMask(file: string): Promise<BlurMask> {
+  const sharp = await loadSharp();
+  const { data, info } = await sharp(file)
+    .rotate()
+    .flatten({ background: "#000000" })
+    .greyscale()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  const mask = new Uint8ClampedArray(info.width * info.height * 4);
+  for (let i = 0; i < info.width * info.height; i++) {
+    mask[i * 4] = mask[i * 4 + 1] = mask[i * 4 + 2] = 255;
+    mask[i * 4 + 3] = data[i * info.channels];
+  }
+  return { data: mask, width: info.width, height: info.height };
+}
+
+// Encode RGBA pixels and write them to a file
+export async function writeImage(
+  file: string,
+  image: RawImage,
+  format: ExportFormat,
+  quality: number
+) {
+  const sharp = await loadSharp();
+  await sharp(image.data, {
+    raw: { width: image.width, height: image.height, channels: 4 },
+  })
+    .toFormat(format, { quality: Math.round(quality * 100) })
+    .toFile(file);
+}
@@ -0,0 +1,18 @@
+#!/usr/bin/env node
+// ***** HEADLESS PROGRESSIVE BLUR *****
+// Same blur as the app, rendered with the CPU implementation so it runs in
+// Node on machines without a GPU. See USAGE in options.ts.
+
+import { USAGE, UsageError } from "./options";
+import { runCli } from "./run";
+
+runCli(process.argv.slice(2)).catch((err) => {
+  if (err instanceof UsageError) {
+    console.error(`progressive-blur: ${err.message}\n\n${USAGE}`);
+  } else {
+    console.error(
+      `progressive-blur: ${err instanceof Error ? err.message : err}`
+    );
+  }
+  process.exitCode = 1;
+});
@@ -0,0 +1,269 @@
+import { parseArgs } from "node:util";
+import {
+  BlurConfig,
+  BlurConfigError,
+  DEFAULT_BLUR_CONFIG,
+  MASK_MODE_NAMES,
+  MAX_FOCUS_ASPECT,
+  MAX_GLASS_FACTOR,
+  MAX_SHADER_KERNEL_SIZE,
+  MIN_FOCUS_ASPECT,
+  parseBlurConfig,
+} from "../src/lib/blurConfig";
+import { EASING_NAMES } from "../src/lib/easing";
+import {
+  DEFAULT_FILENAME_TEMPLATE,
+  EXPORT_FORMATS,
+  ExportFormat,
+} from "../src/lib/export";
+
+export const USAGE = `Usage: progressive-blur <images...> [options]
+
+Applies the progressive blur to every image and writes the results to the
+output directory. Sizes are in pixels of the source image.
+
+Options:
+  -o, --out <dir>         Output directory (default: current directory)
+      --start <0-1>       Where the blur starts (default: ${DEFAULT_BLUR_CONFIG.startPoint})
+      --end <0-1>         Where it reaches full strength (default: ${DEFAULT_BLUR_CONFIG.endPoint})
+      --kernel <px>       Max kernel size (default: ${DEFAULT_BLUR_CONFIG.maxKernelSize})
+      --easing <name>     ${EASING_NAMES.join(", ")} (default: ${DEFAULT_BLUR_CONFIG.easing})
+      --bezier <x1,y1,x2,y2>
+                          Control points for --easing cubicBezier
+      --type <type>       linear or gaussian (default: ${DEFAULT_BLUR_CONFIG.blurType})
+      --angle <deg>       Direction of the blur, 0 = top to bottom (default: ${DEFAULT_BLUR_CONFIG.angle})
+      --mask <mode>       ${MASK_MODE_NAMES.join(", ")} (default: ${DEFAULT_BLUR_CONFIG.maskMode})
+      --focus <x,y>       Focus center in 0-1 coordinates (default: ${DEFAULT_BLUR_CONFIG.focusX},${DEFAULT_BLUR_CONFIG.focusY})
+      --aspect <n>        Ellipse width / height, ${MIN_FOCUS_ASPECT}-${MAX_FOCUS_ASPECT} (default: ${DEFAULT_BLUR_CONFIG.focusAspect})
+      --mask-image <file> Grayscale mask for --mask custom, white = full blur
+      --tint <#rrggbb>    Tint color of the blurred part (default: ${DEFAULT_BLUR_CONFIG.tintColor})
+      --tint-opacity <0-1>
+                          Tint strength at full blur (default: ${DEFAULT_BLUR_CONFIG.tintOpacity})
+      --saturation <0-${MAX_GLASS_FACTOR}> Saturation of the blurred part (default: ${DEFAULT_BLUR_CONFIG.saturation})
+      --brightness <0-${MAX_GLASS_FACTOR}> Brightness of the blurred part (default: ${DEFAULT_BLUR_CONFIG.brightness})
+      --noise <0-1>       Grain against banding (default: ${DEFAULT_BLUR_CONFIG.noise})
+      --format <format>   ${Object.keys(EXPORT_FORMATS).join(", ")} (default: same as input)
+      --quality <0-1>     Quality of lossy formats (default: 0.9)
+      --name <template>   Output file name, tokens {name}, {width}, {height},
+                          {format} and {timestamp} (default: ${DEFAULT_FILENAME_TEMPLATE})
+  -h, --help              Show this help`;
+
+// Invalid command line, reported together with the usage
+export class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UsageError";
+  }
+}
+
+export interface CliOptions {
+  inputs: string[];
+  outDir: string;
+  config: BlurConfig;
+  maskImage?: string;
+  format?: ExportFormat;
+  quality: number;
+  nameTemplate: string;
+  help: boolean;
+}
+
+function parseNumber(
+  name: string,
+  value: string,
+  min = -Infinity,
+  max = Infinity
+) {
+  const number = Number(value);
+  if (
+    value.trim() === "" ||
+    Number.isNaN(number) ||
+    number < min ||
+    number > max
+  ) {
+    const range =
+      Number.isFinite(min) && Number.isFinite(max)
+        ? ` between ${min} and ${max}`
+        : "";
+    throw new UsageError(`--${name} expects a number${range}, got "${value}".`);
+  }
+  return number;
+}
+
+function parseList(name: string, value: string, length: number) {
+  const parts = value.split(",");
+  if (parts.length !== length) {
+    throw new UsageError(
+      `--${name} expects ${length} comma separated numbers, got "${value}".`
+    );
+  }
+  return parts.map((part) => parseNumber(name, part));
+}
+
+function parseChoice<T extends string>(
+  name: string,
+  value: string,
+  choices: readonly T[]
+) {
+  if (!choices.includes(value as T)) {
+    throw new UsageError(
+      `--${name} must be one of ${choices.join(", ")}, got "${value}".`
+    );
+  }
+  return value as T;
+}
+
+export function parseOptions(args: string[]): CliOptions {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args,
+      allowPositionals: true,
+      options: {
+        out: { type: "string", short: "o" },
+        start: { type: "string" },
+        end: { type: "string" },
+        kernel: { type: "string" },
+        easing: { type: "string" },
+        bezier: { type: "string" },
+        type: { type: "string" },
+        angle: { type: "string" },
+        mask: { type: "string" },
+        focus: { type: "string" },
+        aspect: { type: "string" },
+        "mask-image": { type: "string" },
+        tint: { type: "string" },
+        "tint-opacity": { type: "string" },
+        saturation: { type: "string" },
+        brightness: { type: "string" },
+        noise: { type: "string" },
+        format: { type: "string" },
+        quality: { type: "string" },
+        name: { type: "string" },
+        help: { type: "boolean", short: "h" },
+      },
+    });
+  } catch (err) {
+    throw new UsageError(err instanceof Error ? err.message : String(err));
+  }
+  const { values, positionals } = parsed;
+
+  // Options only fill in a raw config, parseBlurConfig() has the last word on
+  // it exactly like on configs from the app. The checks here turn values it
+  // would silently clamp into errors that name the option.
+  const raw: Record<string, unknown> = { ...DEFAULT_BLUR_CONFIG };
+  if (values.start !== undefined) {
+    raw.startPoint = parseNumber("start", values.start, 0, 1);
+  }
+  if (values.end !== undefined) {
+    raw.endPoint = parseNumber("end", values.end, 0, 1);
+  }
+  if (values.kernel !== undefined) {
+    raw.maxKernelSize = parseNumber(
+      "kernel",
+      values.kernel,
+      1,
+      MAX_SHADER_KERNEL_SIZE
+    );
+  }
+  if (values.easing !== undefined) {
+    raw.easing = parseChoice("easing", values.easing, EASING_NAMES);
+  }
+  if (values.bezier !== undefined) {
+    const bezier = parseList("bezier", values.bezier, 4);
+    // Like CSS, the x values have to stay in 0–1
+    if ([bezier[0], bezier[2]].some((x) => x < 0 || x > 1)) {
+      throw new UsageError(
+        `--bezier expects x1 and x2 between 0 and 1, got "${values.bezier}".`
+      );
+    }
+    raw.easingBezier = bezier;
+  }
+  if (values.type !== undefined) {
+    raw.blurType = parseChoice("type", values.type, [
+      "linear",
+      "gaussian",
+    ] as const);
+  }
+  if (values.angle !== undefined) {
+    raw.angle = parseNumber("angle", values.angle);
+  }
+  if (values.mask !== undefined) {
+    raw.maskMode = parseChoice("mask", values.mask, MASK_MODE_NAMES);
+  }
+  if (values.focus !== undefined) {
+    [raw.focusX, raw.focusY] = parseList("focus", values.focus, 2);
+  }
+  if (values.aspect !== undefined) {
+    raw.focusAspect = parseNumber(
+      "aspect",
+      values.aspect,
+      MIN_FOCUS_ASPECT,
+      MAX_FOCUS_ASPECT
+    );
+  }
+  if (values.tint !== undefined) {
+    if (!/^#[0-9a-f]{6}$/i.test(values.tint)) {
+      throw new UsageError(
+        `--tint expects a color like #ffffff, got "${values.tint}".`
+      );
+    }
+    raw.tintColor = values.tint;
+  }
+  if (values["tint-opacity"] !== undefined) {
+    raw.tintOpacity = parseNumber("tint-opacity", values["tint-opacity"], 0, 1);
+  }
+  if (values.saturation !== undefined) {
+    raw.saturation = parseNumber(
+      "saturation",
+      values.saturation,
+      0,
+      MAX_GLASS_FACTOR
+    );
+  }
+  if (values.brightness !== undefined) {
+    raw.brightness = parseNumber(
+      "brightness",
+      values.brightness,
+      0,
+      MAX_GLASS_FACTOR
+    );
+  }
+  if (values.noise !== undefined) {
+    raw.noise = parseNumber("noise", values.noise, 0, 1);
+  }
+  if ((raw.startPoint as number) >= (raw.endPoint as number)) {
+    throw new UsageError("--start must be smaller than --end.");
+  }
+
+  let config: BlurConfig;
+  try {
+    config = parseBlurConfig(raw);
+  } catch (err) {
+    if (err instanceof BlurConfigError) throw new UsageError(err.message);
+    throw err;
+  }
+  if (config.maskMode === "custom" && !values["mask-image"] && !values.help) {
+    throw new UsageError("--mask custom needs a --mask-image.");
+  }
+
+  return {
+    inputs: positionals,
+    outDir: values.out ?? ".",
+    config,
+    maskImage: values["mask-image"],
+    format:
+      values.format !== undefined
+        ? parseChoice(
+            "format",
+            values.format,
+            Object.keys(EXPORT_FORMATS) as ExportFormat[]
+          )
+        : undefined,
+    quality:
+      values.quality !== undefined
+        ? parseNumber("quality", values.quality, 0, 1)
+        : 0.9,
+    nameTemplate: values.name ?? DEFAULT_FILENAME_TEMPLATE,
+    help: values.help ?? false,
+  };
+}
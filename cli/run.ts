@@ -0,0 +1,88 @@
+import { mkdir, readdir, stat } from "node:fs/promises";
+import path from "node:path";
+import { blurImageCPU } from "../src/lib/cpuBlur";
+import { formatFilename, getBaseName } from "../src/lib/export";
+import { getUniqueName } from "../src/lib/zip";
+import { readImage, readMask, writeImage } from "./image";
+import { parseOptions, USAGE, UsageError } from "./options";
+
+const IMAGE_EXTENSIONS = [
+  ".jpg",
+  ".jpeg",
+  ".png",
+  ".webp",
+  ".avif",
+  ".tif",
+  ".tiff",
+  ".gif",
+];
+
+// Expand directories into the images directly inside them
+async function resolveInputs(inputs: string[]) {
+  const files: string[] = [];
+  for (const input of inputs) {
+    if ((await stat(input)).isDirectory()) {
+      const entries = await readdir(input);
+      files.push(
+        ...entries
+          .filter((entry) =>
+            IMAGE_EXTENSIONS.includes(path.extname(entry).toLowerCase())
+          )
+          .sort()
+          .map((entry) => path.join(input, entry))
+      );
+    } else {
+      files.push(input);
+    }
+  }
+  return files;
+}
+
+// Blur the images the command line names and write the results, progress goes
+// to the console. Throws a UsageError for an invalid command line.
+export async function runCli(args: string[]) {
+  const options = parseOptions(args);
+  if (options.help) {
+    console.log(USAGE);
+    return;
+  }
+  if (options.inputs.length === 0) {
+    throw new UsageError("No input images given.");
+  }
+
+  const files = await resolveInputs(options.inputs);
+  const mask = options.maskImage
+    ? await readMask(options.maskImage)
+    : undefined;
+  await mkdir(options.outDir, { recursive: true });
+  // Images with the same name from different directories, or the same image
+  // given twice, would overwrite each other's output
+  const outNames = new Set<string>();
+
+  for (const [index, file] of files.entries()) {
+    const start = performance.now();
+    const image = await readImage(file);
+    const data = blurImageCPU(
+      image.data,
+      image.width,
+      image.height,
+      options.config,
+      mask
+    );
+
+    const format = options.format ?? image.format ?? "png";
+    const outName = formatFilename(options.nameTemplate, {
+      name: getBaseName(file),
+      width: image.width,
+      height: image.height,
+      format,
+    });
+    const outFile = path.join(options.outDir, getUniqueName(outName, outNames));
+    await writeImage(outFile, { ...image, data }, format, options.quality);
+
+    const seconds = ((performance.now() - start) / 1000).toFixed(1);
+    console.log(
+      `[${index + 1}/${files.length}] ${file} -> ${outFile} (${seconds}s)`
+    );
+  }
+}
@@ -1,29 +1,242 @@
-import { Download, X } from "lucide-react";
-import { useEffect, useRef, useState } from "react";
+import {
+  Check,
+  Clapperboard,
+  Download,
+  Link,
+  LoaderCircle,
+  Redo2,
+  Undo2,
+  X,
+} from "lucide-react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { AnimationTimeline } from "./components/AnimationTimeline";
+import { BatchQueue } from "./components/BatchQueue";
 import { BlurSettingsPanel } from "./components/BlurSettingsPanel";
+import { ClipControls } from "./components/ClipControls";
+import { CompareControls } from "./components/CompareControls";
+import { CompareDivider } from "./components/CompareDivider";
+import { CropControls } from "./components/CropControls";
+import { CropFrame } from "./components/CropFrame";
+import { ExportDialog } from "./components/ExportDialog";
+import { FocusHandles } from "./components/FocusHandles";
 import { ImageUploader } from "./components/ImageUploader";
+import { LiveView } from "./components/LiveView";
+import { MaskPainter } from "./components/MaskPainter";
+import { StatusBanner } from "./components/StatusBanner";
+import { ViewControls } from "./components/ViewControls";
+import { ViewMinimap } from "./components/ViewMinimap";
 import { Button } from "./components/ui/button";
-import { BlurConfig, useImageWorker } from "./hooks/useImageWorker";
+import { BatchItem, useBatchQueue } from "./hooks/useBatchQueue";
+import { useBlurAnimation } from "./hooks/useBlurAnimation";
+import { BrushSettings, useBlurMask } from "./hooks/useBlurMask";
+import { createEditorImage, useEditorHistory } from "./hooks/useEditorHistory";
+import { useImageWorker } from "./hooks/useImageWorker";
+import { useLiveSource } from "./hooks/useLiveSource";
+import { useMediaClip } from "./hooks/useMediaClip";
+import { useShareLink } from "./hooks/useShareLink";
+import { useViewport } from "./hooks/useViewport";
+import { BlurConfig, DEFAULT_BLUR_CONFIG } from "./lib/blurConfig";
+import { CompareMode, getCompareStyles, SplitOrientation } from "./lib/compare";
+import {
+  DEFAULT_CROP,
+  getFramePixels,
+  getOutputFrame,
+  isWindowFrame,
+  moveCrop,
+} from "./lib/crop";
+import { getErrorMessage } from "./lib/errors";
+import { ExportMode, getBaseName, mapBlurConfigToImage } from "./lib/export";
+import {
+  AnimationFormat,
+  getAnimatedConfig,
+  hasKeyframes,
+} from "./lib/keyframes";
+import { ClipFormat, isClipFile } from "./lib/media";
+import { getSampleImage } from "./lib/sampleImages";
+import { decodeShareState, ShareState } from "./lib/shareState";
+import {
+  FRAME_PADDING,
+  getFrameHome,
+  getImageViewFit,
+  getRegionFit,
+  getViewFit,
+  getVisibleRegion,
+} from "./lib/viewport";
 
 function App() {
-  const canvasRef = useRef<HTMLCanvasElement>(null);
+  // Unblurred copy of the frame, shown by the comparison views
+  const originalCanvasRef = useRef<HTMLCanvasElement>(null);
+  // Decoded source image or clip frame, kept for exports
+  const sourceImageRef = useRef<{
+    source: CanvasImageSource;
+    width: number;
+    height: number;
+  } | null>(null);
   const [windowSize, setWindowSize] = useState({
     width: window.innerWidth,
     height: window.innerHeight,
   });
   const [pixelRatio, setPixelRatio] = useState(window.devicePixelRatio || 1);
-  const [blurConfig, setBlurConfig] = useState<BlurConfig>({
-    enabled: true,
-    startPoint: 0.3,
-    endPoint: 1,
-    maxKernelSize: 299,
-    easing: "easeInOut",
-    blurType: "gaussian",
+  const {
+    state: { config: blurConfig, image, crop },
+    setBlurConfig,
+    setCrop,
+    commit,
+    undo,
+    redo,
+    canUndo,
+    canRedo,
+  } = useEditorHistory(() => {
+    // Settings and sample image of the link the app was opened with
+    const { config, sampleId } = decodeShareState(window.location.hash);
+    const sample = getSampleImage(sampleId);
+    return {
+      config: config ?? DEFAULT_BLUR_CONFIG,
+      image: sample
+        ? createEditorImage(sample.src, getBaseName(sample.src), sample.id)
+        : null,
+      crop: DEFAULT_CROP,
+    };
   });
-  const [currentImage, setCurrentImage] = useState<string | null>(null);
+  const currentImage = image?.src ?? null;
+  const imageId = image?.id;
+  // Set while one of the sample images is open, uploads can't be shared
+  const sampleId = image?.sampleId;
   const [isDragging, setIsDragging] = useState(false);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  // Last failed render, cleared by the next one that succeeds
+  const [renderError, setRenderError] = useState<string | null>(null);
+  const [isFallbackNoticeHidden, setIsFallbackNoticeHidden] = useState(false);
+  const [compareMode, setCompareMode] = useState<CompareMode>("off");
+  const [splitOrientation, setSplitOrientation] =
+    useState<SplitOrientation>("vertical");
+  const [splitPosition, setSplitPosition] = useState(0.5);
+  // True while the show original button or key is held
+  const [isShowingOriginal, setIsShowingOriginal] = useState(false);
+  // While cropping, drags move the image under the output frame
+  const [isCropping, setIsCropping] = useState(false);
+  const [isTimelineOpen, setIsTimelineOpen] = useState(false);
+  // Natural size of the decoded source image
+  const [sourceSize, setSourceSize] = useState<{
+    width: number;
+    height: number;
+  } | null>(null);
+  const [brush, setBrush] = useState<BrushSettings>({
+    size: 80,
+    hardness: 0.5,
+    erase: false,
+  });
+
+  const {
+    availableEasings,
+    canvasRef,
+    canvasKey,
+    processImage,
+    clearCanvas,
+    captureCanvas,
+    renderImageData,
+    renderLiveFrame,
+    encodeImage,
+    isProcessing,
+    lastRenderDuration,
+    isCpuFallback,
+  } = useImageWorker();
+  const {
+    items: batchItems,
+    isRunning: isBatchRunning,
+    addFiles: addBatchFiles,
+    removeItem: removeBatchItem,
+    clear: clearBatch,
+    setItemConfig: setBatchItemConfig,
+    processAll: processBatch,
+    downloadZip: downloadBatchZip,
+  } = useBatchQueue(renderImageData, encodeImage);
+  const {
+    clip,
+    clipImageId,
+    frameIndex: clipFrameIndex,
+    frame: scrubbedFrame,
+    progress: clipProgress,
+    open: openClip,
+    seek: seekClip,
+    exportClip,
+    cancelExport: cancelClipExport,
+  } = useMediaClip(encodeImage);
+  // The clip only drives the editor while its image is open, undo can switch
+  // back to it
+  const clipFrame = clip && clipImageId === imageId ? scrubbedFrame : null;
+  const {
+    animation,
+    setAnimation,
+    time: animationTime,
+    seek: seekAnimation,
+    isPlaying,
+    setIsPlaying,
+    progress: animationProgress,
+    exportAnimation,
+    cancelExport: cancelAnimationExport,
+  } = useBlurAnimation(encodeImage);
+  const live = useLiveSource(
+    blurConfig,
+    windowSize,
+    pixelRatio,
+    renderLiveFrame,
+    renderImageData,
+    encodeImage
+  );
+  // Settings the canvas and exports use: keyframed ones follow the playhead
+  const renderConfig = useMemo(
+    () =>
+      hasKeyframes(animation)
+        ? getAnimatedConfig(blurConfig, animation, animationTime)
+        : blurConfig,
+    [blurConfig, animation, animationTime]
+  );
+  const {
+    maskCanvasRef,
+    version: maskVersion,
+    paintStroke,
+    commit: commitMask,
+    clear: clearMask,
+    importMask,
+    getImageMask,
+    getFrameMask,
+  } = useBlurMask(sourceSize?.width ?? 0, sourceSize?.height ?? 0);
+  const isCustomMask = blurConfig.maskMode === "custom";
+  // Frame the settings are tuned on and exports are cut from
+  const outputFrame = useMemo(
+    () =>
+      sourceSize
+        ? getOutputFrame(crop, sourceSize, windowSize, pixelRatio)
+        : null,
+    [crop, sourceSize, windowSize, pixelRatio]
+  );
+  const framePadding = isWindowFrame(crop) ? 0 : FRAME_PADDING;
 
-  const { availableEasings, processImage } = useImageWorker(blurConfig);
+  // Move the image under the frame by a drag in CSS pixels
+  const handleCropDrag = (dx: number, dy: number) => {
+    if (!outputFrame || !frameFit) return;
+    const scale = frameFit.drawWidth / outputFrame.width;
+    setCrop((prev) => moveCrop(prev, outputFrame, dx / scale, dy / scale));
+  };
+
+  const {
+    containerRef: viewportRef,
+    view,
+    frameFit,
+    imageFit,
+    pointerHandlers: viewPointerHandlers,
+    showPreset,
+    centerOn,
+    resetView,
+  } = useViewport(
+    outputFrame,
+    sourceSize,
+    windowSize,
+    pixelRatio,
+    framePadding,
+    isCropping ? handleCropDrag : undefined
+  );
 
   // Handle window resize and pixel ratio changes
   useEffect(() => {
@@ -50,73 +263,169 @@ function App() {
   }, []);
 
   useEffect(() => {
+    // The worker draws the canvas, only its size in CSS pixels is set here
     const canvas = canvasRef.current;
     if (!canvas) return;
 
-    const ctx = canvas.getContext("2d", { alpha: false });
-    if (!ctx) return;
-
-    // Set canvas dimensions accounting for pixel ratio
     const displayWidth = windowSize.width;
     const displayHeight = windowSize.height;
-
-    // Set the canvas size in CSS pixels
     canvas.style.width = `${displayWidth}px`;
     canvas.style.height = `${displayHeight}px`;
+    const canvasWidth = Math.floor(displayWidth * pixelRatio);
+    const canvasHeight = Math.floor(displayHeight * pixelRatio);
+
+    // If no image is selected, the worker fills the canvas with dark gray
+    if (!currentImage) {
+      sourceImageRef.current = null;
+      setSourceSize(null);
+      // Undoing back to no image must not leave the dialog to reappear later
+      setIsExportOpen(false);
+      // Also drops a render that is still running, so it can't paint over
+      // the placeholder
+      clearCanvas(canvasWidth, canvasHeight);
+      return;
+    }
 
-    // Set the canvas internal dimensions accounting for pixel ratio
-    canvas.width = Math.floor(displayWidth * pixelRatio);
-    canvas.height = Math.floor(displayHeight * pixelRatio);
+    const render = async (
+      source: CanvasImageSource,
+      width: number,
+      height: number
+    ) => {
+      // Blur settings are tuned on the output frame, while the view can be
+      // zoomed and panned away from that
+      const frame = getOutputFrame(
+        crop,
+        { width, height },
+        windowSize,
+        pixelRatio
+      );
+      const frameFit = getViewFit(
+        getFrameHome(frame, windowSize, framePadding),
+        windowSize,
+        view
+      );
+      const fit = getImageViewFit(frameFit, frame);
+      sourceImageRef.current = { source, width, height };
+      setSourceSize((prev) =>
+        prev?.width === width && prev?.height === height
+          ? prev
+          : { width, height }
+      );
+
+      // Draw the unblurred frame for the before/after comparison, the
+      // blurred one is drawn by the worker
+      const original = originalCanvasRef.current;
+      const originalCtx = original?.getContext("2d", { alpha: false });
+      if (original && originalCtx) {
+        original.width = canvasWidth;
+        original.height = canvasHeight;
+        originalCtx.imageSmoothingEnabled = true;
+        originalCtx.imageSmoothingQuality = "high";
+        originalCtx.setTransform(pixelRatio, 0, 0, pixelRatio, 0, 0);
+        // Zoomed out views leave room around the image
+        originalCtx.fillStyle = "#1f2937";
+        originalCtx.fillRect(0, 0, displayWidth, displayHeight);
+        originalCtx.drawImage(
+          source,
+          fit.offsetX,
+          fit.offsetY,
+          fit.drawWidth,
+          fit.drawHeight
+        );
+      }
 
-    // Clear any previous scaling
-    ctx.setTransform(1, 0, 0, 1, 0, 0);
-    // Apply high-quality image rendering settings
-    ctx.imageSmoothingEnabled = true;
-    ctx.imageSmoothingQuality = "high";
-    // Scale the context to ensure correct drawing operations
-    ctx.setTransform(pixelRatio, 0, 0, pixelRatio, 0, 0);
+      // Only the part of the canvas the image covers gets blurred, or just
+      // the crop, with the settings mapped onto it like for an export
+      const region = getVisibleRegion(
+        isWindowFrame(crop) ? fit : frameFit,
+        canvasWidth,
+        canvasHeight,
+        pixelRatio
+      );
+      const config = mapBlurConfigToImage(
+        renderConfig,
+        getRegionFit(frame, frameFit, region, pixelRatio),
+        frame,
+        frame.pixelRatio,
+        region.width
+      );
+      // Where the image and the blurred region sit on the canvas. The worker
+      // keeps the mask as long as neither it nor this changes.
+      const layoutKey = `${canvasWidth}x${canvasHeight}:${fit.offsetX},${fit.offsetY},${fit.drawWidth}x${fit.drawHeight}:${region.x},${region.y},${region.width}x${region.height}`;
+      const mask = isCustomMask
+        ? {
+            key: `${maskVersion}:${layoutKey}`,
+            getMask: () =>
+              getFrameMask(
+                {
+                  ...fit,
+                  offsetX: fit.offsetX - region.x / pixelRatio,
+                  offsetY: fit.offsetY - region.y / pixelRatio,
+                },
+                region.width / pixelRatio,
+                region.height / pixelRatio
+              ),
+          }
+        : null;
+      const sourceId = `${imageId}:${clipFrame?.timestamp ?? 0}`;
+      try {
+        const painted = await processImage(
+          {
+            sourceId,
+            source,
+            width: canvasWidth,
+            height: canvasHeight,
+            fit: {
+              offsetX: fit.offsetX * pixelRatio,
+              offsetY: fit.offsetY * pixelRatio,
+              drawWidth: fit.drawWidth * pixelRatio,
+              drawHeight: fit.drawHeight * pixelRatio,
+            },
+            region,
+          },
+          config,
+          mask,
+          `${sourceId}:${layoutKey}`
+        );
+        if (painted) setRenderError(null);
+      } catch (err) {
+        setRenderError(getErrorMessage(err));
+      }
+    };
 
-    // If no image is selected, fill with dark gray
-    if (!currentImage) {
-      ctx.fillStyle = "#1f2937"; // dark gray
-      ctx.fillRect(0, 0, displayWidth, displayHeight);
+    // Clips show the scrubbed frame, it's decoded already
+    if (clipFrame) {
+      render(clipFrame.canvas, clipFrame.canvas.width, clipFrame.canvas.height);
       return;
     }
 
     const img = new Image();
     img.src = currentImage;
-    img.onload = async () => {
-      // Clear the canvas before drawing
-      ctx.clearRect(0, 0, displayWidth, displayHeight);
-
-      // Calculate dimensions to cover the entire canvas while maintaining aspect ratio
-      const imgRatio = img.width / img.height;
-      const canvasRatio = displayWidth / displayHeight;
-
-      let drawWidth,
-        drawHeight,
-        offsetX = 0,
-        offsetY = 0;
-
-      if (canvasRatio > imgRatio) {
-        // Canvas is wider than the image aspect ratio
-        drawWidth = displayWidth;
-        drawHeight = displayWidth / imgRatio;
-        offsetY = (displayHeight - drawHeight) / 2;
-      } else {
-        // Canvas is taller than the image aspect ratio
-        drawHeight = displayHeight;
-        drawWidth = displayHeight * imgRatio;
-        offsetX = (displayWidth - drawWidth) / 2;
-      }
-
-      // Draw the image at the calculated dimensions
-      ctx.drawImage(img, offsetX, offsetY, drawWidth, drawHeight);
+    img.onload = () => render(img, img.naturalWidth, img.naturalHeight);
 
-      // Process the image with the current blur settings
-      await processImage(ctx, canvas);
+    // An image that finishes decoding after newer settings came in would
+    // otherwise queue a render with outdated settings
+    return () => {
+      img.onload = null;
     };
-  }, [blurConfig, processImage, windowSize, pixelRatio, currentImage]);
+  }, [
+    canvasRef,
+    canvasKey,
+    renderConfig,
+    processImage,
+    clearCanvas,
+    windowSize,
+    pixelRatio,
+    view,
+    crop,
+    framePadding,
+    currentImage,
+    imageId,
+    clipFrame,
+    isCustomMask,
+    getFrameMask,
+    maskVersion,
+  ]);
 
   // Handle drag events
   const handleDragOver = (e: React.DragEvent) => {
@@ -132,45 +441,246 @@ function App() {
     e.preventDefault();
     setIsDragging(false);
 
-    if (e.dataTransfer.files && e.dataTransfer.files[0]) {
-      const file = e.dataTransfer.files[0];
-      if (file && file.type.startsWith("image/")) {
-        const reader = new FileReader();
-        reader.onload = (e) => {
-          if (e.target?.result) {
-            setCurrentImage(e.target.result as string);
-          }
-        };
-        reader.readAsDataURL(file);
+    const files = Array.from(e.dataTransfer.files).filter(
+      (file) => file.type.startsWith("image/") || file.type.startsWith("video/")
+    );
+    if (files.length > 1) {
+      handleBatchSelect(files);
+    } else if (files[0]) {
+      handleFileSelect(files[0]);
+    }
+  };
+
+  // Open a single file. Videos and animated images open as clips, where the
+  // browser can decode their frames.
+  const handleFileSelect = async (file: File) => {
+    if (isClipFile(file)) {
+      try {
+        const isClip = await openClip(file, (poster) => {
+          const image = createEditorImage(poster, getBaseName(file.name));
+          commit((prev) => ({ ...prev, image }));
+          return image.id;
+        });
+        if (isClip) return;
+      } catch (err) {
+        setRenderError(getErrorMessage(err));
+        return;
       }
     }
+    if (!file.type.startsWith("image/")) return;
+
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      if (e.target?.result) {
+        handleImageSelect(e.target.result as string, file.name);
+      }
+    };
+    reader.readAsDataURL(file);
+  };
+
+  // Queue several images, opening the first when the editor is empty
+  const handleBatchSelect = (files: File[]) => {
+    const added = addBatchFiles(files);
+    if (!currentImage && added[0]) handleOpenBatchItem(added[0]);
+  };
+
+  // Open a queued image in the editor, along with its pinned settings
+  const handleOpenBatchItem = (item: BatchItem) => {
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      if (!e.target?.result) return;
+      const src = e.target.result as string;
+      commit((prev) => ({
+        ...prev,
+        config: item.config ?? prev.config,
+        image: createEditorImage(src, item.name),
+      }));
+    };
+    reader.readAsDataURL(item.file);
   };
 
-  // Handle clear image
+  // Handle new image, remembering its name for export file names
+  const handleImageSelect = (
+    imageDataUrl: string,
+    fileName: string,
+    sampleId?: string
+  ) => {
+    commit((prev) => ({
+      ...prev,
+      image: createEditorImage(imageDataUrl, getBaseName(fileName), sampleId),
+    }));
+  };
+
+  // Handle clear image, undo brings it back
   const handleClearImage = () => {
-    setCurrentImage(null);
+    commit((prev) => ({ ...prev, image: null }));
   };
 
-  // Handle download image
-  const handleDownloadImage = () => {
-    const canvas = canvasRef.current;
-    if (!canvas || !currentImage) return;
+  // A painted mask and the zoom belong to the image they were made on, also
+  // when undo or redo switch images
+  useEffect(() => {
+    clearMask();
+    resetView();
+  }, [imageId, clearMask, resetView]);
 
-    // Create a temporary link element
-    const link = document.createElement("a");
+  // Ctrl/Cmd+Z to undo, with Shift to redo. Text fields keep their own undo.
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== "z") return;
+      if (
+        e.target instanceof HTMLInputElement &&
+        (e.target.type === "text" || e.target.type === "number")
+      ) {
+        return;
+      }
+      e.preventDefault();
+      if (e.shiftKey) {
+        redo();
+      } else {
+        undo();
+      }
+    };
 
-    // Set the download filename
-    link.download = `fx-blur-image-${new Date().getTime()}.jpg`;
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [undo, redo]);
 
-    // Convert canvas to high-quality JPG data URL
-    link.href = canvas.toDataURL("image/jpeg", 0.9);
+  // Hold \ to show the original, like the before/after toggle of photo editors
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key !== "\\" || e.target instanceof HTMLInputElement) return;
+      setIsShowingOriginal(true);
+    };
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (e.key === "\\") setIsShowingOriginal(false);
+    };
+    // The key up never arrives when the window loses focus while holding
+    const handleBlur = () => setIsShowingOriginal(false);
 
-    // Append to the document, click it, and remove it
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+    window.addEventListener("keydown", handleKeyDown);
+    window.addEventListener("keyup", handleKeyUp);
+    window.addEventListener("blur", handleBlur);
+    return () => {
+      window.removeEventListener("keydown", handleKeyDown);
+      window.removeEventListener("keyup", handleKeyUp);
+      window.removeEventListener("blur", handleBlur);
+    };
+  }, []);
+
+  // A share link pasted into the address bar while the app is open, applied
+  // as one undoable step
+  const handleOpenLink = useCallback(
+    (state: Partial<ShareState>) => {
+      const sample = getSampleImage(state.sampleId);
+      commit((prev) => ({
+        ...prev,
+        config: state.config ?? prev.config,
+        image: sample
+          ? createEditorImage(sample.src, getBaseName(sample.src), sample.id)
+          : prev.image,
+      }));
+    },
+    [commit]
+  );
+
+  const { copyLink, isLinkCopied } = useShareLink(
+    { config: blurConfig, sampleId },
+    handleOpenLink
+  );
+
+  // Blur a full resolution source image (or the crop of it) with the
+  // settings on screen, like a download does, or the ones of an animation
+  // frame
+  const renderSourcePixels = useCallback(
+    async (
+      source: CanvasImageSource,
+      width: number,
+      height: number,
+      config: BlurConfig = renderConfig
+    ) => {
+      const pixels = getFramePixels(
+        source,
+        { width, height },
+        crop,
+        config,
+        windowSize,
+        pixelRatio
+      );
+      if (!pixels) return null;
+
+      const { frame, imageData } = pixels;
+      const mask = !isCustomMask
+        ? null
+        : isWindowFrame(crop)
+          ? getImageMask()
+          : getFrameMask(frame.imageFit, frame.width, frame.height);
+      return renderImageData(imageData, pixels.config, mask);
+    },
+    [
+      renderConfig,
+      crop,
+      windowSize,
+      pixelRatio,
+      renderImageData,
+      isCustomMask,
+      getImageMask,
+      getFrameMask,
+    ]
+  );
+
+  // Collect the pixels to export: the untouched source image (or the crop of
+  // it) blurred at its native resolution, or exactly what the canvas shows
+  const getExportPixels = useCallback(
+    async (mode: ExportMode) => {
+      if (mode === "viewport") return captureCanvas();
+
+      const image = sourceImageRef.current;
+      if (!image) return null;
+      return renderSourcePixels(image.source, image.width, image.height);
+    },
+    [captureCanvas, renderSourcePixels]
+  );
+
+  // Render every frame of the open clip and download it
+  const handleExportClip = async (format: ClipFormat) => {
+    try {
+      await exportClip(format, image?.name ?? "clip", (source) =>
+        renderSourcePixels(source, source.width, source.height)
+      );
+    } catch (err) {
+      setRenderError(getErrorMessage(err));
+    }
+  };
+
+  // Render every frame of the animation over the open image or clip frame
+  const handleExportAnimation = async (format: AnimationFormat) => {
+    const source = sourceImageRef.current;
+    if (!source) return;
+    try {
+      await exportAnimation(
+        format,
+        image?.name ?? "image",
+        blurConfig,
+        (config) =>
+          renderSourcePixels(source.source, source.width, source.height, config)
+      );
+    } catch (err) {
+      setRenderError(getErrorMessage(err));
+    }
   };
 
+  const handleCloseExport = useCallback(() => setIsExportOpen(false), []);
+
+  const compareStyles = getCompareStyles({
+    mode: currentImage ? compareMode : "off",
+    orientation: splitOrientation,
+    position: splitPosition,
+    showOriginal: !!currentImage && isShowingOriginal,
+  });
+  // Overlays line up with the frame everywhere but in the side by side view
+  const showOverlays =
+    !!currentImage && compareMode !== "sideBySide" && !isShowingOriginal;
+
   return (
     <div className="w-full h-full overflow-hidden select-none">
       <div
@@ -179,47 +689,318 @@ function App() {
         onDragLeave={handleDragLeave}
         onDrop={handleDrop}
       >
-        <canvas
-          ref={canvasRef}
-          className="absolute top-0 left-0 w-full h-full object-cover z-10"
-        />
+        {/* Frame and its overlays, wheel and pinch zoom it */}
+        <div ref={viewportRef} className="absolute inset-0">
+          <canvas
+            key={canvasKey}
+            ref={canvasRef}
+            className="absolute top-0 left-0 w-full h-full object-cover z-10 touch-none cursor-grab active:cursor-grabbing"
+            style={compareStyles.processed}
+            {...(currentImage ? viewPointerHandlers : {})}
+          />
+          <canvas
+            ref={originalCanvasRef}
+            className="absolute top-0 left-0 w-full h-full object-cover z-10 pointer-events-none"
+            style={compareStyles.original}
+          />
+
+          {/* Output frame, everything outside it is left out of exports */}
+          {showOverlays && frameFit && (isCropping || !isWindowFrame(crop)) && (
+            <CropFrame
+              fit={frameFit}
+              width={windowSize.width}
+              height={windowSize.height}
+              showGrid={isCropping}
+            />
+          )}
+
+          {/* Divider between the original and the blurred frame */}
+          {currentImage && compareMode === "split" && !isShowingOriginal && (
+            <CompareDivider
+              orientation={splitOrientation}
+              position={splitPosition}
+              onPositionChange={setSplitPosition}
+            />
+          )}
+
+          {/* Focus handles for radial, elliptical and tilt-shift masks */}
+          {showOverlays &&
+            blurConfig.enabled &&
+            blurConfig.maskMode !== "linear" &&
+            frameFit && (
+              <FocusHandles
+                blurConfig={blurConfig}
+                setBlurConfig={setBlurConfig}
+                frame={frameFit}
+                width={windowSize.width}
+                height={windowSize.height}
+              />
+            )}
+
+          {/* Brush overlay for painting a custom mask */}
+          {showOverlays && blurConfig.enabled && isCustomMask && imageFit && (
+            <MaskPainter
+              maskCanvasRef={maskCanvasRef}
+              maskVersion={maskVersion}
+              fit={imageFit}
+              width={windowSize.width}
+              height={windowSize.height}
+              brush={brush}
+              onStroke={paintStroke}
+              onStrokeEnd={commitMask}
+            />
+          )}
+        </div>
 
         {/* Action buttons */}
         {currentImage && (
           <>
             {/* Download button */}
             <Button
-              onClick={handleDownloadImage}
+              onClick={() => setIsExportOpen(true)}
               className="absolute top-4 left-4 z-20 rounded-full size-11 p-0 bg-neutral-800/80 hover:bg-neutral-700/80 text-white backdrop-blur-md"
               aria-label="Download image"
             >
               <Download size={20} />
             </Button>
 
-            {/* Clear button */}
+            {/* Copy link button */}
             <Button
-              onClick={handleClearImage}
-              className="absolute top-4 right-4 z-20 rounded-full size-11 p-0 bg-neutral-800/80 hover:bg-neutral-700/80 text-white backdrop-blur-md"
-              aria-label="Clear image"
+              onClick={copyLink}
+              className="absolute top-4 left-18 z-20 rounded-full size-11 p-0 bg-neutral-800/80 hover:bg-neutral-700/80 text-white backdrop-blur-md"
+              aria-label={
+                isLinkCopied ? "Link copied" : "Copy link to settings"
+              }
+              title={
+                sampleId
+                  ? "Copy link to these settings and image"
+                  : "Copy link to these settings"
+              }
             >
-              <X size={20} />
+              {isLinkCopied ? <Check size={20} /> : <Link size={20} />}
             </Button>
+
+            {/* Keyframe timeline button */}
+            <Button
+              onClick={() => setIsTimelineOpen((prev) => !prev)}
+              className="absolute top-4 left-32 z-20 rounded-full size-11 p-0 bg-neutral-800/80 hover:bg-neutral-700/80 text-white backdrop-blur-md aria-pressed:bg-white/90 aria-pressed:text-neutral-700"
+              aria-label="Animate settings"
+              aria-pressed={isTimelineOpen}
+              title="Animate settings"
+            >
+              <Clapperboard size={20} />
+            </Button>
+
+            {/* Render status */}
+            {(isProcessing || lastRenderDuration !== null) && (
+              <div className="absolute top-4 left-46 z-20 h-11 flex items-center gap-1.5 px-3 rounded-full bg-neutral-800/80 text-xs text-white/75 tabular-nums backdrop-blur-md pointer-events-none">
+                {isProcessing && (
+                  <LoaderCircle size={14} className="animate-spin" />
+                )}
+                {lastRenderDuration !== null &&
+                  `${Math.round(lastRenderDuration)} ms`}
+              </div>
+            )}
+
+            {/* Zoom presets, with a minimap once the image is cropped */}
+            {imageFit && sourceSize && (
+              <div className="absolute top-18 right-4 z-20 flex flex-col items-end gap-3">
+                <ViewControls
+                  zoom={(imageFit.drawWidth * pixelRatio) / sourceSize.width}
+                  hasCrop={!isWindowFrame(crop)}
+                  onPresetSelect={showPreset}
+                />
+                <ViewMinimap
+                  src={currentImage}
+                  fit={imageFit}
+                  viewSize={windowSize}
+                  onCenterChange={centerOn}
+                />
+                {clip && clipFrame && (
+                  <ClipControls
+                    frameIndex={clipFrameIndex}
+                    frameCount={clip.frameCount}
+                    isTruncated={clip.isTruncated}
+                    onSeek={seekClip}
+                    progress={clipProgress}
+                    onExport={handleExportClip}
+                    onCancel={cancelClipExport}
+                  />
+                )}
+              </div>
+            )}
+
+            {/* Before/after comparison */}
+            <div className="absolute top-18 left-4 z-20">
+              <CompareControls
+                mode={compareMode}
+                onModeChange={setCompareMode}
+                orientation={splitOrientation}
+                onOrientationChange={setSplitOrientation}
+                onShowOriginalChange={setIsShowingOriginal}
+              />
+            </div>
+
+            {/* Output frame */}
+            <div className="absolute top-32 left-4 z-20">
+              <CropControls
+                crop={crop}
+                setCrop={setCrop}
+                isCropping={isCropping}
+                onCroppingChange={setIsCropping}
+              />
+            </div>
           </>
         )}
 
+        {/* History and clear buttons, above the uploader so clearing the
+            image can be undone */}
+        {(currentImage || canUndo || canRedo) && (
+          <div className="absolute top-4 right-4 z-30 flex gap-3">
+            <Button
+              onClick={undo}
+              disabled={!canUndo}
+              className="rounded-full size-11 p-0 bg-neutral-800/80 hover:bg-neutral-700/80 text-white backdrop-blur-md"
+              aria-label="Undo"
+              title="Undo (Ctrl+Z)"
+            >
+              <Undo2 size={20} />
+            </Button>
+            <Button
+              onClick={redo}
+              disabled={!canRedo}
+              className="rounded-full size-11 p-0 bg-neutral-800/80 hover:bg-neutral-700/80 text-white backdrop-blur-md"
+              aria-label="Redo"
+              title="Redo (Shift+Ctrl+Z)"
+            >
+              <Redo2 size={20} />
+            </Button>
+            {currentImage && (
+              <Button
+                onClick={handleClearImage}
+                className="rounded-full size-11 p-0 bg-neutral-800/80 hover:bg-neutral-700/80 text-white backdrop-blur-md"
+                aria-label="Clear image"
+              >
+                <X size={20} />
+              </Button>
+            )}
+          </div>
+        )}
+
+        {/* Batch queue, above the uploader so queued images can be opened */}
+        {batchItems.length > 0 && (
+          <div className="absolute top-46 left-4 z-30">
+            <BatchQueue
+              items={batchItems}
+              isRunning={isBatchRunning}
+              onOpen={handleOpenBatchItem}
+              onRemove={removeBatchItem}
+              onTogglePin={(item) =>
+                setBatchItemConfig(
+                  item.id,
+                  item.config ? undefined : blurConfig
+                )
+              }
+              onProcess={(format) =>
+                processBatch({
+                  config: blurConfig,
+                  crop,
+                  windowSize,
+                  pixelRatio,
+                  output: { format, quality: 0.9 },
+                })
+              }
+              onDownload={downloadBatchZip}
+              onClear={clearBatch}
+            />
+          </div>
+        )}
+
+        {/* Keyframe timeline */}
+        {currentImage && isTimelineOpen && (
+          <div className="absolute bottom-6 left-4 z-20">
+            <AnimationTimeline
+              animation={animation}
+              setAnimation={setAnimation}
+              blurConfig={blurConfig}
+              time={animationTime}
+              onSeek={seekAnimation}
+              isPlaying={isPlaying}
+              onPlayingChange={setIsPlaying}
+              progress={animationProgress}
+              onExport={handleExportAnimation}
+              onCancel={cancelAnimationExport}
+              onClose={() => {
+                setIsTimelineOpen(false);
+                setIsPlaying(false);
+              }}
+            />
+          </div>
+        )}
+
+        {/* Live camera, screen or test pattern, covers the editor */}
+        {live.source && (
+          <LiveView
+            canvasRef={live.canvasRef}
+            source={live.source}
+            stats={live.stats}
+            isSnapshotting={live.isSnapshotting}
+            onSnapshot={live.snapshot}
+            onStop={live.stop}
+          />
+        )}
+
+        {/* Render errors and notices */}
+        <div className="absolute top-4 left-1/2 -translate-x-1/2 z-20 max-w-[92%]">
+          {renderError ? (
+            <StatusBanner
+              message={renderError}
+              onDismiss={() => setRenderError(null)}
+            />
+          ) : live.error ? (
+            <StatusBanner message={live.error} onDismiss={live.dismissError} />
+          ) : (
+            isCpuFallback &&
+            !isFallbackNoticeHidden && (
+              <StatusBanner
+                variant="info"
+                message="WebGL2 is not available, blurring on the CPU. Large blurs will be slow."
+                onDismiss={() => setIsFallbackNoticeHidden(true)}
+              />
+            )
+          )}
+        </div>
+
         {/* Upload interface */}
-        {!currentImage && (
+        {!currentImage && !live.source && (
           <ImageUploader
-            onImageSelect={setCurrentImage}
+            onImageSelect={handleImageSelect}
+            onFileSelect={handleFileSelect}
+            onBatchSelect={handleBatchSelect}
+            onLiveSelect={live.start}
             isDragging={isDragging}
           />
         )}
 
+        {/* Export dialog */}
+        {currentImage && isExportOpen && (
+          <ExportDialog
+            imageName={image?.name ?? "image"}
+            getPixels={getExportPixels}
+            encodeImage={encodeImage}
+            onClose={handleCloseExport}
+          />
+        )}
+
         {/* Settings Panel */}
         <BlurSettingsPanel
           blurConfig={blurConfig}
           setBlurConfig={setBlurConfig}
           availableEasings={availableEasings}
+          brush={brush}
+          setBrush={setBrush}
+          onImportMask={importMask}
+          onClearMask={clearMask}
         />
       </div>
     </div>
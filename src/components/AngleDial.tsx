@@ -0,0 +1,83 @@
+import { useRef } from "react";
+import { normalizeAngle } from "../lib/gradient";
+import { cn } from "../lib/utils";
+
+interface AngleDialProps {
+  value: number;
+  onValueChange: (value: number) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+// Rotary knob for picking a direction. The indicator points the way the blur
+// grows, matching getGradientDirection (0° = down, 90° = right).
+export function AngleDial({
+  value,
+  onValueChange,
+  disabled,
+  className,
+}: AngleDialProps) {
+  const dialRef = useRef<HTMLDivElement>(null);
+
+  const updateFromPointer = (e: React.PointerEvent) => {
+    const rect = dialRef.current?.getBoundingClientRect();
+    if (!rect) return;
+
+    const dx = e.clientX - (rect.left + rect.width / 2);
+    const dy = e.clientY - (rect.top + rect.height / 2);
+    let angle = normalizeAngle((Math.atan2(dx, dy) * 180) / Math.PI);
+    // Snap to 15° steps while holding shift
+    if (e.shiftKey) angle = normalizeAngle(Math.round(angle / 15) * 15);
+    onValueChange(Math.round(angle));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    const step = e.shiftKey ? 15 : 1;
+    if (e.key === "ArrowRight" || e.key === "ArrowUp") {
+      onValueChange(normalizeAngle(value + step));
+    } else if (e.key === "ArrowLeft" || e.key === "ArrowDown") {
+      onValueChange(normalizeAngle(value - step));
+    } else {
+      return;
+    }
+    e.preventDefault();
+  };
+
+  return (
+    <div
+      ref={dialRef}
+      role="slider"
+      aria-label="Blur direction"
+      aria-valuemin={0}
+      aria-valuemax={359}
+      aria-valuenow={value}
+      aria-disabled={disabled}
+      tabIndex={disabled ? -1 : 0}
+      onPointerDown={(e) => {
+        if (disabled) return;
+        e.currentTarget.setPointerCapture(e.pointerId);
+        updateFromPointer(e);
+      }}
+      onPointerMove={(e) => {
+        if (disabled || !e.currentTarget.hasPointerCapture(e.pointerId)) {
+          return;
+        }
+        updateFromPointer(e);
+      }}
+      onKeyDown={disabled ? undefined : handleKeyDown}
+      className={cn(
+        "relative size-8 shrink-0 rounded-full bg-white/6 touch-none outline-none focus-visible:ring-4 ring-ring/50",
+        disabled ? "opacity-50" : "cursor-grab active:cursor-grabbing",
+        className
+      )}
+    >
+      <div
+        className="absolute inset-0"
+        style={{ transform: `rotate(${-value}deg)` }}
+      >
+        <div className="absolute left-1/2 top-1/2 h-1/2 w-0.5 -translate-x-1/2 rounded-full bg-white/90" />
+        <div className="absolute left-1/2 bottom-0.5 size-1.5 -translate-x-1/2 rounded-full bg-white" />
+      </div>
+    </div>
+  );
+}
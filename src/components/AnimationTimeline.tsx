@@ -0,0 +1,338 @@
+import { Diamond, Pause, Play, Trash2, X } from "lucide-react";
+import { useState } from "react";
+import { ClipProgress } from "../hooks/useMediaClip";
+import { BlurConfig } from "../lib/blurConfig";
+import {
+  ANIMATABLE_FIELD_LABELS,
+  ANIMATABLE_FIELDS,
+  AnimatableField,
+  ANIMATION_FORMATS,
+  AnimationFormat,
+  BlurAnimation,
+  KEYFRAME_EASING_NAMES,
+  KeyframeEasing,
+  MAX_ANIMATION_DURATION,
+  MAX_FRAME_RATE,
+  removeKeyframe,
+  setKeyframe,
+  updateKeyframe,
+} from "../lib/keyframes";
+import { Button } from "./ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "./ui/select";
+import { Slider } from "./ui/slider";
+import { Tabs, TabsList, TabsTrigger } from "./ui/tabs";
+
+interface AnimationTimelineProps {
+  animation: BlurAnimation;
+  setAnimation: React.Dispatch<React.SetStateAction<BlurAnimation>>;
+  // Settings of the editor, keyframes record their current values
+  blurConfig: BlurConfig;
+  time: number;
+  onSeek: (time: number) => void;
+  isPlaying: boolean;
+  onPlayingChange: (isPlaying: boolean) => void;
+  progress: ClipProgress | null;
+  onExport: (format: AnimationFormat) => void;
+  onCancel: () => void;
+  onClose: () => void;
+}
+
+const iconButtonClassName =
+  "size-8 p-0 bg-white/6 hover:bg-white/12 text-white rounded-lg";
+
+const tabTriggerClassName =
+  "rounded-lg text-xs data-[state=active]:bg-white/90 data-[state=active]:text-neutral-700";
+
+const selectContentClassName =
+  "bg-neutral-800/80 text-white backdrop-blur-lg rounded-xl border-none p-.5 shadow-sm";
+
+// Keyframe timeline. Pick a setting and record its current value at the
+// playhead, every keyframe eases towards the next one with its own curve.
+export function AnimationTimeline({
+  animation,
+  setAnimation,
+  blurConfig,
+  time,
+  onSeek,
+  isPlaying,
+  onPlayingChange,
+  progress,
+  onExport,
+  onCancel,
+  onClose,
+}: AnimationTimelineProps) {
+  const [field, setField] = useState<AnimatableField>("startPoint");
+  const [selected, setSelected] = useState<{
+    field: AnimatableField;
+    time: number;
+  } | null>(null);
+  const [format, setFormat] = useState<AnimationFormat>("webm");
+  const isExporting = progress !== null;
+
+  const trackFields = ANIMATABLE_FIELDS.filter(
+    (key) => (animation.tracks[key]?.length ?? 0) > 0
+  );
+  const selectedKeyframe = selected
+    ? animation.tracks[selected.field]?.find(
+        (keyframe) => keyframe.time === selected.time
+      )
+    : undefined;
+
+  const handleAddKeyframe = () => {
+    setAnimation((prev) => setKeyframe(prev, field, time, blurConfig[field]));
+    setSelected({ field, time });
+  };
+
+  const setNumber = (
+    key: "duration" | "frameRate",
+    value: string,
+    max: number
+  ) => {
+    const number = parseFloat(value);
+    if (!Number.isFinite(number) || number <= 0) return;
+    setAnimation((prev) => ({ ...prev, [key]: Math.min(max, number) }));
+  };
+
+  return (
+    <div className="w-[360px] bg-neutral-800/80 text-white p-3 rounded-3xl shadow-settings backdrop-blur-lg backdrop-saturate-180 space-y-3">
+      <div className="flex items-center gap-2">
+        <Button
+          onClick={() => onPlayingChange(!isPlaying)}
+          className={iconButtonClassName}
+          aria-label={isPlaying ? "Pause" : "Play"}
+          disabled={isExporting}
+        >
+          {isPlaying ? <Pause size={16} /> : <Play size={16} />}
+        </Button>
+        <span className="w-24 text-xs text-white/75 tabular-nums">
+          {time.toFixed(2)} / {animation.duration.toFixed(2)} s
+        </span>
+        <div className="flex flex-1 items-center justify-end gap-1 text-xs text-white/60">
+          <input
+            type="number"
+            min="0.1"
+            max={MAX_ANIMATION_DURATION}
+            step="0.1"
+            value={animation.duration}
+            onChange={(e) =>
+              setNumber("duration", e.target.value, MAX_ANIMATION_DURATION)
+            }
+            className="w-14 h-8 px-2 text-sm rounded-lg bg-white/6 text-white"
+            aria-label="Duration in seconds"
+            disabled={isExporting}
+          />
+          s
+          <input
+            type="number"
+            min="1"
+            max={MAX_FRAME_RATE}
+            step="1"
+            value={animation.frameRate}
+            onChange={(e) =>
+              setNumber("frameRate", e.target.value, MAX_FRAME_RATE)
+            }
+            className="w-12 h-8 px-2 text-sm rounded-lg bg-white/6 text-white"
+            aria-label="Frames per second"
+            disabled={isExporting}
+          />
+          fps
+        </div>
+        <button
+          onClick={onClose}
+          className="text-white/70 hover:text-white"
+          aria-label="Close timeline"
+        >
+          <X size={18} />
+        </button>
+      </div>
+
+      <Slider
+        min={0}
+        max={animation.duration}
+        step={1 / animation.frameRate}
+        value={[time]}
+        onValueChange={(values) => onSeek(values[0])}
+        disabled={isExporting}
+      />
+
+      {/* One row per animated setting, click a keyframe to edit it */}
+      {trackFields.length > 0 && (
+        <div className="space-y-1">
+          {trackFields.map((key) => (
+            <div key={key} className="flex items-center gap-2">
+              <span className="w-20 truncate text-xs text-white/75">
+                {ANIMATABLE_FIELD_LABELS[key]}
+              </span>
+              <div className="relative flex-1 h-5 rounded-md bg-white/6">
+                {animation.tracks[key]?.map((keyframe) => {
+                  const isSelected =
+                    selected?.field === key && selected.time === keyframe.time;
+                  return (
+                    <button
+                      key={keyframe.time}
+                      onClick={() => {
+                        setSelected({ field: key, time: keyframe.time });
+                        onSeek(keyframe.time);
+                      }}
+                      className={`absolute top-1/2 -translate-x-1/2 -translate-y-1/2 ${
+                        isSelected
+                          ? "text-white"
+                          : "text-white/60 hover:text-white"
+                      }`}
+                      style={{
+                        left: `${(keyframe.time / animation.duration) * 100}%`,
+                      }}
+                      aria-label={`${ANIMATABLE_FIELD_LABELS[key]} keyframe at ${keyframe.time.toFixed(2)} s`}
+                    >
+                      <Diamond
+                        size={12}
+                        fill={isSelected ? "currentColor" : "none"}
+                      />
+                    </button>
+                  );
+                })}
+                {/* Playhead */}
+                <div
+                  className="absolute top-0 bottom-0 w-px bg-white/50 pointer-events-none"
+                  style={{ left: `${(time / animation.duration) * 100}%` }}
+                />
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {selected && selectedKeyframe && (
+        <div className="flex items-center gap-2">
+          <span className="flex-1 text-xs text-white/75 truncate">
+            {ANIMATABLE_FIELD_LABELS[selected.field]} at{" "}
+            {selected.time.toFixed(2)} s, eases
+          </span>
+          <Select
+            value={selectedKeyframe.easing}
+            onValueChange={(value) =>
+              setAnimation((prev) =>
+                updateKeyframe(prev, selected.field, selected.time, {
+                  easing: value as KeyframeEasing,
+                })
+              )
+            }
+          >
+            <SelectTrigger className="w-[110px] bg-white/6 border-none text-white rounded-lg h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className={selectContentClassName}>
+              {KEYFRAME_EASING_NAMES.map((easing) => (
+                <SelectItem key={easing} value={easing} className="rounded-lg">
+                  {easing.replace(/([A-Z])/g, " $1").toLowerCase()}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            onClick={() => {
+              setAnimation((prev) =>
+                removeKeyframe(prev, selected.field, selected.time)
+              );
+              setSelected(null);
+            }}
+            className={iconButtonClassName}
+            aria-label="Delete keyframe"
+            title="Delete keyframe"
+          >
+            <Trash2 size={16} />
+          </Button>
+        </div>
+      )}
+
+      <div className="flex items-center gap-2">
+        <Select
+          value={field}
+          onValueChange={(value) => setField(value as AnimatableField)}
+        >
+          <SelectTrigger className="flex-1 bg-white/6 border-none text-white rounded-lg h-8">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent className={selectContentClassName}>
+            {ANIMATABLE_FIELDS.map((key) => (
+              <SelectItem key={key} value={key} className="rounded-lg">
+                {ANIMATABLE_FIELD_LABELS[key]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          onClick={handleAddKeyframe}
+          className="h-8 bg-white/6 hover:bg-white/12 text-white rounded-lg text-xs"
+          title="Record the current value of this setting at the playhead"
+          disabled={isExporting}
+        >
+          <Diamond size={14} />
+          Set keyframe
+        </Button>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <Tabs
+          value={format}
+          onValueChange={(value) => setFormat(value as AnimationFormat)}
+          className="flex-1"
+        >
+          <TabsList className="w-full grid grid-cols-2 bg-white/6 text-white/75 rounded-xl">
+            {(Object.keys(ANIMATION_FORMATS) as AnimationFormat[]).map(
+              (key) => (
+                <TabsTrigger
+                  key={key}
+                  value={key}
+                  className={tabTriggerClassName}
+                  disabled={isExporting}
+                >
+                  {ANIMATION_FORMATS[key].label}
+                </TabsTrigger>
+              )
+            )}
+          </TabsList>
+        </Tabs>
+        {progress ? (
+          <Button
+            onClick={onCancel}
+            className="bg-white/6 hover:bg-white/12 text-white rounded-xl tabular-nums"
+            title="Cancel export"
+          >
+            {progress.done} / {progress.total}
+            <X size={14} />
+          </Button>
+        ) : (
+          <Button
+            onClick={() => onExport(format)}
+            disabled={trackFields.length === 0}
+            className="bg-white/90 hover:bg-white text-neutral-800 rounded-xl"
+          >
+            Export
+          </Button>
+        )}
+      </div>
+
+      {progress && (
+        <div
+          role="progressbar"
+          aria-valuemin={0}
+          aria-valuemax={progress.total}
+          aria-valuenow={progress.done}
+          className="h-1.5 rounded-full bg-white/10 overflow-hidden"
+        >
+          <div
+            className="h-full bg-white/90 transition-[width]"
+            style={{ width: `${(progress.done / progress.total) * 100}%` }}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
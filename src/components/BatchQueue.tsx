@@ -0,0 +1,167 @@
+import {
+  CircleAlert,
+  Check,
+  LoaderCircle,
+  Pin,
+  PinOff,
+  Trash2,
+  X,
+} from "lucide-react";
+import { useState } from "react";
+import { BatchItem } from "../hooks/useBatchQueue";
+import { EXPORT_FORMATS, ExportFormat } from "../lib/export";
+import { Button } from "./ui/button";
+import { Tabs, TabsList, TabsTrigger } from "./ui/tabs";
+
+interface BatchQueueProps {
+  items: BatchItem[];
+  isRunning: boolean;
+  onOpen: (item: BatchItem) => void;
+  onRemove: (id: number) => void;
+  // Pin the editor's current settings to an item, or unpin them
+  onTogglePin: (item: BatchItem) => void;
+  onProcess: (format: ExportFormat) => void;
+  onDownload: () => void;
+  onClear: () => void;
+}
+
+const tabTriggerClassName =
+  "rounded-lg text-xs data-[state=active]:bg-white/90 data-[state=active]:text-neutral-700";
+
+function StatusIcon({ item }: { item: BatchItem }) {
+  if (item.status === "processing") {
+    return <LoaderCircle size={14} className="animate-spin" />;
+  }
+  if (item.status === "done") {
+    return <Check size={14} />;
+  }
+  if (item.status === "error") {
+    return <CircleAlert size={14} className="text-red-300" />;
+  }
+  return null;
+}
+
+// Images dropped together. Each one is rendered with the editor's settings
+// unless it has its own pinned, click one to open it in the editor.
+export function BatchQueue({
+  items,
+  isRunning,
+  onOpen,
+  onRemove,
+  onTogglePin,
+  onProcess,
+  onDownload,
+  onClear,
+}: BatchQueueProps) {
+  const [format, setFormat] = useState<ExportFormat>("png");
+  const doneCount = items.filter((item) => item.status === "done").length;
+
+  return (
+    <div className="w-64 bg-neutral-800/80 text-white p-3 rounded-3xl shadow-settings backdrop-blur-lg backdrop-saturate-180">
+      <div className="flex items-center justify-between mb-2 px-1">
+        <h2 className="text-sm font-bold">Batch</h2>
+        <span className="text-xs text-white/60 tabular-nums">
+          {doneCount} / {items.length} done
+        </span>
+      </div>
+
+      <ul className="max-h-[40vh] overflow-y-auto space-y-1 mb-3">
+        {items.map((item) => (
+          <li
+            key={item.id}
+            className="flex items-center gap-2 p-1 rounded-xl hover:bg-white/6"
+          >
+            <button
+              onClick={() => onOpen(item)}
+              className="flex flex-1 min-w-0 items-center gap-2 text-left"
+              title={item.error ?? `Open ${item.file.name}`}
+            >
+              <img
+                src={item.thumbnailUrl}
+                alt=""
+                className="size-10 shrink-0 rounded-lg object-cover"
+              />
+              <span className="flex-1 truncate text-xs text-white/90">
+                {item.file.name}
+              </span>
+              <StatusIcon item={item} />
+            </button>
+            <button
+              onClick={() => onTogglePin(item)}
+              className={
+                item.config ? "text-white" : "text-white/50 hover:text-white"
+              }
+              aria-label={
+                item.config ? "Unpin settings" : "Pin current settings"
+              }
+              title={
+                item.config
+                  ? "Follow the editor's settings again"
+                  : "Keep the current settings for this image"
+              }
+              disabled={isRunning}
+            >
+              {item.config ? <Pin size={14} /> : <PinOff size={14} />}
+            </button>
+            <button
+              onClick={() => onRemove(item.id)}
+              className="text-white/50 hover:text-white"
+              aria-label={`Remove ${item.file.name}`}
+              disabled={isRunning}
+            >
+              <X size={14} />
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      <Tabs
+        value={format}
+        onValueChange={(value) => setFormat(value as ExportFormat)}
+      >
+        <TabsList className="w-full grid grid-cols-3 bg-white/6 text-white/75 rounded-xl mb-2">
+          {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map((key) => (
+            <TabsTrigger
+              key={key}
+              value={key}
+              className={tabTriggerClassName}
+              disabled={isRunning}
+            >
+              {EXPORT_FORMATS[key].label}
+            </TabsTrigger>
+          ))}
+        </TabsList>
+      </Tabs>
+
+      <div className="flex gap-2">
+        <Button
+          onClick={() => onProcess(format)}
+          disabled={isRunning || items.length === 0}
+          className="flex-1 bg-white/6 hover:bg-white/12 text-white rounded-xl"
+        >
+          {isRunning ? (
+            <LoaderCircle size={16} className="animate-spin" />
+          ) : (
+            "Process"
+          )}
+        </Button>
+        <Button
+          onClick={onDownload}
+          disabled={isRunning || doneCount === 0}
+          className="flex-1 bg-white/90 hover:bg-white text-neutral-800 rounded-xl"
+          title="Download the results as one ZIP file"
+        >
+          Download
+        </Button>
+        <Button
+          onClick={onClear}
+          className="size-9 p-0 bg-white/6 hover:bg-white/12 text-white rounded-lg"
+          aria-label="Clear batch"
+          title="Clear batch"
+        >
+          <Trash2 size={16} />
+        </Button>
+      </div>
+    </div>
+  );
+}
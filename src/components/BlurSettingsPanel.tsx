@@ -1,4 +1,18 @@
-import { BlurConfig } from "../hooks/useImageWorker";
+import { BrushSettings } from "../hooks/useBlurMask";
+import {
+  BlurBackend,
+  BlurConfig,
+  MaskMode,
+  MAX_FOCUS_ASPECT,
+  MIN_FOCUS_ASPECT,
+} from "../lib/blurConfig";
+import { normalizeAngle } from "../lib/gradient";
+import { MASK_MODES } from "../lib/mask";
+import { AngleDial } from "./AngleDial";
+import { EasingCurveEditor } from "./EasingCurveEditor";
+import { GlassControls } from "./GlassControls";
+import { MaskBrushControls } from "./MaskBrushControls";
+import { PresetPicker } from "./PresetPicker";
 import {
   Select,
   SelectContent,
@@ -13,20 +27,34 @@ interface BlurSettingsPanelProps {
   blurConfig: BlurConfig;
   setBlurConfig: React.Dispatch<React.SetStateAction<BlurConfig>>;
   availableEasings: string[];
+  brush: BrushSettings;
+  setBrush: React.Dispatch<React.SetStateAction<BrushSettings>>;
+  onImportMask: (file: File) => void;
+  onClearMask: () => void;
 }
 
 export function BlurSettingsPanel({
   blurConfig,
   setBlurConfig,
   availableEasings,
+  brush,
+  setBrush,
+  onImportMask,
+  onClearMask,
 }: BlurSettingsPanelProps) {
   // Check if blur is enabled based on blur type
   const isBlurEnabled = blurConfig.blurType !== "none";
+  // A custom mask replaces the range and direction entirely
+  const isCustomMask = blurConfig.maskMode === "custom";
+  // A circle looks the same at every rotation
+  const hasRotation = blurConfig.maskMode !== "radial" && !isCustomMask;
 
   return (
     <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-10 max-w-[460px] w-[92%]">
       <div className="bg-neutral-800/80 text-white p-4 pt-[17px] rounded-3xl shadow-settings backdrop-blur-lg backdrop-saturate-180">
         <div className="flex flex-col">
+          <PresetPicker blurConfig={blurConfig} onApply={setBlurConfig} />
+          <div className="h-4"></div>
           <div className="space-y-2">
             <Tabs
               value={blurConfig.blurType}
@@ -60,6 +88,28 @@ export function BlurSettingsPanel({
                 </TabsTrigger>
               </TabsList>
             </Tabs>
+            <Tabs
+              value={blurConfig.maskMode}
+              onValueChange={(value) =>
+                setBlurConfig((prev) => ({
+                  ...prev,
+                  maskMode: value as MaskMode,
+                }))
+              }
+            >
+              <TabsList className="w-full grid grid-cols-5 bg-white/6 text-white/75 rounded-xl">
+                {(Object.keys(MASK_MODES) as MaskMode[]).map((mode) => (
+                  <TabsTrigger
+                    key={mode}
+                    value={mode}
+                    disabled={!isBlurEnabled}
+                    className="rounded-lg data-[state=active]:bg-white/90 data-[state=active]:text-neutral-700"
+                  >
+                    {MASK_MODES[mode]}
+                  </TabsTrigger>
+                ))}
+              </TabsList>
+            </Tabs>
           </div>
           <div className="h-4"></div>
           <div className="space-y-1">
@@ -105,6 +155,38 @@ export function BlurSettingsPanel({
               disabled={!isBlurEnabled}
             />
           </div>
+          <div className="h-4"></div>
+          <div className="flex items-center justify-between">
+            <label className="text-sm font-medium text-white/90">
+              Renderer
+            </label>
+            <Tabs
+              value={blurConfig.backend}
+              onValueChange={(value) =>
+                setBlurConfig((prev) => ({
+                  ...prev,
+                  backend: value as BlurBackend,
+                }))
+              }
+            >
+              <TabsList className="grid grid-cols-2 bg-white/6 text-white/75 rounded-xl">
+                <TabsTrigger
+                  value="exact"
+                  disabled={!isBlurEnabled}
+                  className="rounded-lg data-[state=active]:bg-white/90 data-[state=active]:text-neutral-700"
+                >
+                  Exact
+                </TabsTrigger>
+                <TabsTrigger
+                  value="pyramid"
+                  disabled={!isBlurEnabled}
+                  className="rounded-lg data-[state=active]:bg-white/90 data-[state=active]:text-neutral-700"
+                >
+                  Fast
+                </TabsTrigger>
+              </TabsList>
+            </Tabs>
+          </div>
           <div className="h-5"></div>
           <div className="space-y-2">
             <div className="grid grid-cols-[1fr_auto] gap-x-3 gap-y-0 items-center">
@@ -118,6 +200,7 @@ export function BlurSettingsPanel({
                 min={0}
                 max={1}
                 step={0.1}
+                minStepsBetweenThumbs={1}
                 value={[blurConfig.startPoint, blurConfig.endPoint]}
                 onValueChange={(values) =>
                   setBlurConfig((prev) => ({
@@ -126,7 +209,7 @@ export function BlurSettingsPanel({
                     endPoint: values[1],
                   }))
                 }
-                disabled={!isBlurEnabled}
+                disabled={!isBlurEnabled || isCustomMask}
               />
 
               <Select
@@ -151,7 +234,97 @@ export function BlurSettingsPanel({
                 </SelectContent>
               </Select>
             </div>
+            {(blurConfig.easing === "cubicBezier" ||
+              blurConfig.easing === "multiStop") && (
+              <EasingCurveEditor
+                mode={blurConfig.easing}
+                bezier={blurConfig.easingBezier}
+                stops={blurConfig.easingStops}
+                onBezierChange={(easingBezier) =>
+                  setBlurConfig((prev) => ({ ...prev, easingBezier }))
+                }
+                onStopsChange={(easingStops) =>
+                  setBlurConfig((prev) => ({ ...prev, easingStops }))
+                }
+                disabled={!isBlurEnabled}
+              />
+            )}
           </div>
+          <div className="h-4"></div>
+          <div className="flex items-center justify-between">
+            <label className="text-sm font-medium text-white/90">
+              {blurConfig.maskMode === "linear" ? "Direction" : "Rotation"}
+            </label>
+            <div className="flex items-center gap-2">
+              <input
+                type="number"
+                min="0"
+                max="359"
+                value={blurConfig.angle}
+                onChange={(e) => {
+                  const value = parseInt(e.target.value);
+                  if (Number.isNaN(value)) return;
+                  setBlurConfig((prev) => ({
+                    ...prev,
+                    angle: normalizeAngle(value),
+                  }));
+                }}
+                className="w-16 h-8 px-2 text-sm rounded-lg bg-white/6 text-white"
+                disabled={!isBlurEnabled || !hasRotation}
+              />
+              <AngleDial
+                value={blurConfig.angle}
+                onValueChange={(value) =>
+                  setBlurConfig((prev) => ({
+                    ...prev,
+                    angle: value,
+                  }))
+                }
+                disabled={!isBlurEnabled || !hasRotation}
+              />
+            </div>
+          </div>
+          {isCustomMask && (
+            <>
+              <div className="h-4"></div>
+              <MaskBrushControls
+                brush={brush}
+                setBrush={setBrush}
+                onImportMask={onImportMask}
+                onClearMask={onClearMask}
+                disabled={!isBlurEnabled}
+              />
+            </>
+          )}
+          {blurConfig.maskMode === "elliptical" && (
+            <>
+              <div className="h-4"></div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-white/90">
+                  Ellipse Aspect: {blurConfig.focusAspect.toFixed(1)}
+                </label>
+                <Slider
+                  min={MIN_FOCUS_ASPECT}
+                  max={MAX_FOCUS_ASPECT}
+                  step={0.1}
+                  value={[blurConfig.focusAspect]}
+                  onValueChange={(values) =>
+                    setBlurConfig((prev) => ({
+                      ...prev,
+                      focusAspect: values[0],
+                    }))
+                  }
+                  disabled={!isBlurEnabled}
+                />
+              </div>
+            </>
+          )}
+          <div className="h-4"></div>
+          <GlassControls
+            blurConfig={blurConfig}
+            setBlurConfig={setBlurConfig}
+            disabled={!isBlurEnabled}
+          />
         </div>
       </div>
     </div>
@@ -0,0 +1,115 @@
+import { X } from "lucide-react";
+import { useState } from "react";
+import { ClipProgress } from "../hooks/useMediaClip";
+import { CLIP_FORMATS, ClipFormat, MAX_CLIP_FRAMES } from "../lib/media";
+import { Button } from "./ui/button";
+import { Slider } from "./ui/slider";
+import { Tabs, TabsList, TabsTrigger } from "./ui/tabs";
+
+interface ClipControlsProps {
+  frameIndex: number;
+  frameCount: number;
+  // The clip was cut at MAX_CLIP_FRAMES
+  isTruncated: boolean;
+  onSeek: (index: number) => void;
+  progress: ClipProgress | null;
+  onExport: (format: ClipFormat) => void;
+  onCancel: () => void;
+}
+
+const tabTriggerClassName =
+  "rounded-lg text-xs data-[state=active]:bg-white/90 data-[state=active]:text-neutral-700";
+
+// Frame scrubber and export of a video or animated image. The scrubbed frame
+// is previewed with the current settings, the export renders all of them.
+export function ClipControls({
+  frameIndex,
+  frameCount,
+  isTruncated,
+  onSeek,
+  progress,
+  onExport,
+  onCancel,
+}: ClipControlsProps) {
+  const [format, setFormat] = useState<ClipFormat>("webm");
+  const isExporting = progress !== null;
+
+  return (
+    <div className="w-72 bg-neutral-800/80 text-white p-3 rounded-3xl shadow-settings backdrop-blur-lg backdrop-saturate-180 space-y-3">
+      <div className="space-y-2 px-1">
+        <div className="flex items-center justify-between">
+          <label className="text-sm font-medium text-white/90">Frame</label>
+          <span className="text-xs text-white/60 tabular-nums">
+            {frameIndex + 1} / {frameCount}
+          </span>
+        </div>
+        <Slider
+          min={0}
+          max={frameCount - 1}
+          step={1}
+          value={[frameIndex]}
+          onValueChange={(values) => onSeek(values[0])}
+          disabled={isExporting}
+        />
+        {isTruncated && (
+          <div className="text-xs text-white/60">
+            Only the first {MAX_CLIP_FRAMES} frames are used.
+          </div>
+        )}
+      </div>
+
+      <Tabs
+        value={format}
+        onValueChange={(value) => setFormat(value as ClipFormat)}
+      >
+        <TabsList className="w-full grid grid-cols-2 bg-white/6 text-white/75 rounded-xl">
+          {(Object.keys(CLIP_FORMATS) as ClipFormat[]).map((key) => (
+            <TabsTrigger
+              key={key}
+              value={key}
+              className={tabTriggerClassName}
+              disabled={isExporting}
+            >
+              {CLIP_FORMATS[key].label}
+            </TabsTrigger>
+          ))}
+        </TabsList>
+      </Tabs>
+
+      {progress ? (
+        <div className="flex items-center gap-2">
+          <div
+            role="progressbar"
+            aria-valuemin={0}
+            aria-valuemax={progress.total}
+            aria-valuenow={progress.done}
+            className="flex-1 h-1.5 rounded-full bg-white/10 overflow-hidden"
+          >
+            <div
+              className="h-full bg-white/90 transition-[width]"
+              style={{ width: `${(progress.done / progress.total) * 100}%` }}
+            />
+          </div>
+          <span className="text-xs text-white/60 tabular-nums">
+            {progress.done} / {progress.total}
+          </span>
+          <Button
+            onClick={onCancel}
+            className="size-9 p-0 bg-white/6 hover:bg-white/12 text-white rounded-lg"
+            aria-label="Cancel export"
+            title="Cancel export"
+          >
+            <X size={16} />
+          </Button>
+        </div>
+      ) : (
+        <Button
+          onClick={() => onExport(format)}
+          className="w-full bg-white/90 hover:bg-white text-neutral-800 rounded-xl"
+        >
+          Export clip
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,87 @@
+import {
+  Columns2,
+  Eye,
+  Rows2,
+  Square,
+  SquareSplitHorizontal,
+} from "lucide-react";
+import { CompareMode, SplitOrientation } from "../lib/compare";
+import { Button } from "./ui/button";
+
+interface CompareControlsProps {
+  mode: CompareMode;
+  onModeChange: (mode: CompareMode) => void;
+  orientation: SplitOrientation;
+  onOrientationChange: (orientation: SplitOrientation) => void;
+  onShowOriginalChange: (showOriginal: boolean) => void;
+}
+
+const MODES: { mode: CompareMode; label: string; icon: typeof Square }[] = [
+  { mode: "off", label: "Blurred only", icon: Square },
+  { mode: "split", label: "Split view", icon: SquareSplitHorizontal },
+  { mode: "sideBySide", label: "Side by side", icon: Columns2 },
+];
+
+const buttonClassName =
+  "size-9 p-0 rounded-full bg-transparent hover:bg-white/12 text-white/75 aria-pressed:bg-white/90 aria-pressed:text-neutral-700";
+
+// Before/after view switcher. Holding the eye button (or the \ key) shows
+// the original in any mode.
+export function CompareControls({
+  mode,
+  onModeChange,
+  orientation,
+  onOrientationChange,
+  onShowOriginalChange,
+}: CompareControlsProps) {
+  return (
+    <div className="flex items-center gap-1 p-1 rounded-full bg-neutral-800/80 backdrop-blur-md">
+      {MODES.map(({ mode: value, label, icon: Icon }) => (
+        <Button
+          key={value}
+          onClick={() => onModeChange(value)}
+          className={buttonClassName}
+          aria-label={label}
+          aria-pressed={mode === value}
+          title={label}
+        >
+          <Icon size={18} />
+        </Button>
+      ))}
+      {mode === "split" && (
+        <Button
+          onClick={() =>
+            onOrientationChange(
+              orientation === "vertical" ? "horizontal" : "vertical"
+            )
+          }
+          className={buttonClassName}
+          aria-label={
+            orientation === "vertical"
+              ? "Split top and bottom"
+              : "Split left and right"
+          }
+          title="Switch divider direction"
+        >
+          {orientation === "vertical" ? (
+            <Rows2 size={18} />
+          ) : (
+            <Columns2 size={18} />
+          )}
+        </Button>
+      )}
+      <div className="w-px h-5 bg-white/20" />
+      <Button
+        onPointerDown={() => onShowOriginalChange(true)}
+        onPointerUp={() => onShowOriginalChange(false)}
+        onPointerLeave={() => onShowOriginalChange(false)}
+        onPointerCancel={() => onShowOriginalChange(false)}
+        className={`${buttonClassName} touch-none`}
+        aria-label="Hold to show the original"
+        title="Hold to show the original (\)"
+      >
+        <Eye size={18} />
+      </Button>
+    </div>
+  );
+}
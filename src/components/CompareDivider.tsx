@@ -0,0 +1,83 @@
+import { GripHorizontal, GripVertical } from "lucide-react";
+import { SplitOrientation } from "../lib/compare";
+import { cn } from "../lib/utils";
+
+interface CompareDividerProps {
+  orientation: SplitOrientation;
+  position: number;
+  onPositionChange: (position: number) => void;
+}
+
+// Draggable line between the original (left / top) and the blurred frame
+export function CompareDivider({
+  orientation,
+  position,
+  onPositionChange,
+}: CompareDividerProps) {
+  const isVertical = orientation === "vertical";
+
+  const updateFromPointer = (e: React.PointerEvent) => {
+    const value = isVertical
+      ? e.clientX / window.innerWidth
+      : e.clientY / window.innerHeight;
+    onPositionChange(Math.min(1, Math.max(0, value)));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    const step = e.shiftKey ? 0.1 : 0.01;
+    if (e.key === "ArrowRight" || e.key === "ArrowDown") {
+      onPositionChange(Math.min(1, position + step));
+    } else if (e.key === "ArrowLeft" || e.key === "ArrowUp") {
+      onPositionChange(Math.max(0, position - step));
+    } else {
+      return;
+    }
+    e.preventDefault();
+  };
+
+  return (
+    <div
+      className={cn(
+        "absolute z-20 flex items-center justify-center",
+        isVertical ? "top-0 h-full w-0" : "left-0 w-full h-0"
+      )}
+      style={
+        isVertical
+          ? { left: `${position * 100}%` }
+          : { top: `${position * 100}%` }
+      }
+    >
+      <div
+        className={cn(
+          "absolute bg-white/90 pointer-events-none",
+          isVertical ? "w-0.5 h-full" : "h-0.5 w-full"
+        )}
+      />
+      <div
+        role="slider"
+        aria-label="Comparison divider"
+        aria-orientation={orientation}
+        aria-valuemin={0}
+        aria-valuemax={100}
+        aria-valuenow={Math.round(position * 100)}
+        tabIndex={0}
+        onPointerDown={(e) => {
+          e.currentTarget.setPointerCapture(e.pointerId);
+          updateFromPointer(e);
+        }}
+        onPointerMove={(e) => {
+          if (e.currentTarget.hasPointerCapture(e.pointerId)) {
+            updateFromPointer(e);
+          }
+        }}
+        onKeyDown={handleKeyDown}
+        className={cn(
+          "relative shrink-0 size-9 flex items-center justify-center rounded-full bg-white/90 text-neutral-700 shadow-settings touch-none",
+          isVertical ? "cursor-ew-resize" : "cursor-ns-resize"
+        )}
+      >
+        {isVertical ? <GripVertical size={16} /> : <GripHorizontal size={16} />}
+      </div>
+    </div>
+  );
+}
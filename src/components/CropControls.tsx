@@ -0,0 +1,98 @@
+import { Crop } from "lucide-react";
+import {
+  clampOutputSize,
+  CROP_ASPECT_LABELS,
+  CROP_ASPECTS,
+  CropAspect,
+  CropSettings,
+  MAX_OUTPUT_SIZE,
+} from "../lib/crop";
+import { Button } from "./ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "./ui/select";
+
+interface CropControlsProps {
+  crop: CropSettings;
+  setCrop: React.Dispatch<React.SetStateAction<CropSettings>>;
+  isCropping: boolean;
+  onCroppingChange: (isCropping: boolean) => void;
+}
+
+// Output frame picker. While cropping, dragging the image moves it under the
+// frame instead of panning the view.
+export function CropControls({
+  crop,
+  setCrop,
+  isCropping,
+  onCroppingChange,
+}: CropControlsProps) {
+  const setOutputSize = (key: "width" | "height", value: string) => {
+    const size = parseInt(value);
+    if (Number.isNaN(size)) return;
+    setCrop((prev) => ({ ...prev, [key]: clampOutputSize(size) }));
+  };
+
+  return (
+    <div className="flex items-center gap-1 p-1 rounded-full bg-neutral-800/80 backdrop-blur-md">
+      <Button
+        onClick={() => onCroppingChange(!isCropping)}
+        className="size-9 p-0 rounded-full bg-transparent hover:bg-white/12 text-white/75 aria-pressed:bg-white/90 aria-pressed:text-neutral-700"
+        aria-label="Crop and position"
+        aria-pressed={isCropping}
+        title="Crop and position"
+      >
+        <Crop size={18} />
+      </Button>
+      {isCropping && (
+        <>
+          <Select
+            value={crop.aspect}
+            onValueChange={(value) =>
+              setCrop((prev) => ({ ...prev, aspect: value as CropAspect }))
+            }
+          >
+            <SelectTrigger className="w-[100px] bg-white/6 border-none text-white rounded-full h-9">
+              <SelectValue placeholder="Aspect" />
+            </SelectTrigger>
+            <SelectContent className="bg-neutral-800/80 text-white backdrop-blur-lg rounded-xl border-none p-.5 shadow-sm">
+              {CROP_ASPECTS.map((aspect) => (
+                <SelectItem key={aspect} value={aspect} className="rounded-lg">
+                  {CROP_ASPECT_LABELS[aspect]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {crop.aspect === "custom" && (
+            <div className="flex items-center gap-1 pr-2 text-xs text-white/60">
+              <input
+                type="number"
+                min="1"
+                max={MAX_OUTPUT_SIZE}
+                value={crop.width}
+                onChange={(e) => setOutputSize("width", e.target.value)}
+                className="w-16 h-8 px-2 text-sm rounded-lg bg-white/6 text-white"
+                aria-label="Output width"
+              />
+              ×
+              <input
+                type="number"
+                min="1"
+                max={MAX_OUTPUT_SIZE}
+                value={crop.height}
+                onChange={(e) => setOutputSize("height", e.target.value)}
+                className="w-16 h-8 px-2 text-sm rounded-lg bg-white/6 text-white"
+                aria-label="Output height"
+              />
+              px
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,59 @@
+import { CoverFit } from "../lib/export";
+
+interface CropFrameProps {
+  // Where the output frame is on screen, in CSS pixels
+  fit: CoverFit;
+  width: number;
+  height: number;
+  showGrid: boolean;
+}
+
+// Dims everything outside the output frame, with a rule of thirds grid
+// inside it while cropping
+export function CropFrame({ fit, width, height, showGrid }: CropFrameProps) {
+  const { offsetX: x, offsetY: y, drawWidth: w, drawHeight: h } = fit;
+
+  return (
+    <svg
+      width={width}
+      height={height}
+      className="absolute top-0 left-0 z-10 pointer-events-none"
+    >
+      <path
+        d={`M0 0H${width}V${height}H0Z M${x} ${y}H${x + w}V${y + h}H${x}Z`}
+        fillRule="evenodd"
+        fill="rgb(10, 10, 10)"
+        fillOpacity={0.6}
+      />
+      <rect
+        x={x}
+        y={y}
+        width={w}
+        height={h}
+        fill="none"
+        stroke="white"
+        strokeOpacity={0.7}
+      />
+      {showGrid && (
+        <g stroke="white" strokeOpacity={0.4}>
+          {[1, 2].map((i) => (
+            <g key={i}>
+              <line
+                x1={x + (w * i) / 3}
+                y1={y}
+                x2={x + (w * i) / 3}
+                y2={y + h}
+              />
+              <line
+                x1={x}
+                y1={y + (h * i) / 3}
+                x2={x + w}
+                y2={y + (h * i) / 3}
+              />
+            </g>
+          ))}
+        </g>
+      )}
+    </svg>
+  );
+}
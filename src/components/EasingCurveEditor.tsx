@@ -0,0 +1,199 @@
+import { useRef, useState } from "react";
+import {
+  BezierPoints,
+  CurveStop,
+  DEFAULT_CURVE_STOPS,
+  getEasingFunction,
+} from "../lib/easing";
+
+interface EasingCurveEditorProps {
+  mode: "cubicBezier" | "multiStop";
+  bezier: BezierPoints;
+  stops: CurveStop[];
+  onBezierChange: (bezier: BezierPoints) => void;
+  onStopsChange: (stops: CurveStop[]) => void;
+  disabled?: boolean;
+}
+
+// Samples used to draw the curve preview
+const PREVIEW_SAMPLES = 64;
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+// Interactive curve editor. For cubic-bezier the two control points can be
+// dragged, for multi-stop curves clicking the graph adds a stop, dragging
+// moves one and double-clicking removes it.
+export function EasingCurveEditor({
+  mode,
+  bezier,
+  stops,
+  onBezierChange,
+  onStopsChange,
+  disabled,
+}: EasingCurveEditorProps) {
+  const areaRef = useRef<HTMLDivElement>(null);
+  // Index of the dragged point: bezier control point or multi-stop stop
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+
+  const easing = getEasingFunction({
+    easing: mode,
+    easingBezier: bezier,
+    easingStops: stops,
+  });
+  const curvePath = Array.from({ length: PREVIEW_SAMPLES + 1 }, (_, i) => {
+    const x = i / PREVIEW_SAMPLES;
+    return `${i === 0 ? "M" : "L"}${x * 100},${(1 - clamp01(easing(x))) * 100}`;
+  }).join(" ");
+
+  const getPointerValue = (e: React.PointerEvent) => {
+    const rect = areaRef.current!.getBoundingClientRect();
+    return {
+      x: clamp01((e.clientX - rect.left) / rect.width),
+      y: clamp01(1 - (e.clientY - rect.top) / rect.height),
+    };
+  };
+
+  const sortedStops = [...stops].sort((a, b) => a.x - b.x);
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (dragIndex === null) return;
+    const { x, y } = getPointerValue(e);
+
+    if (mode === "cubicBezier") {
+      const next: BezierPoints = [...bezier];
+      next[dragIndex * 2] = x;
+      next[dragIndex * 2 + 1] = y;
+      onBezierChange(next);
+      return;
+    }
+
+    // End stops stay pinned to the edges, inner stops can't pass neighbours
+    const isFirst = dragIndex === 0;
+    const isLast = dragIndex === sortedStops.length - 1;
+    const minX = isFirst ? 0 : sortedStops[dragIndex - 1].x;
+    const maxX = isLast ? 1 : sortedStops[dragIndex + 1].x;
+    const nextX = isFirst ? 0 : isLast ? 1 : Math.min(maxX, Math.max(minX, x));
+    onStopsChange(
+      sortedStops.map((stop, i) => (i === dragIndex ? { x: nextX, y } : stop))
+    );
+  };
+
+  const handleAreaPointerDown = (e: React.PointerEvent) => {
+    if (disabled || mode !== "multiStop") return;
+    const stop = getPointerValue(e);
+    const next = [...sortedStops, stop].sort((a, b) => a.x - b.x);
+    onStopsChange(next);
+    // Keep dragging the freshly added stop
+    setDragIndex(next.indexOf(stop));
+    areaRef.current?.setPointerCapture(e.pointerId);
+  };
+
+  const points =
+    mode === "cubicBezier"
+      ? [
+          { x: bezier[0], y: bezier[1] },
+          { x: bezier[2], y: bezier[3] },
+        ]
+      : sortedStops;
+
+  return (
+    <div className="space-y-1">
+      <div className="p-2 rounded-xl bg-white/6">
+        <div
+          ref={areaRef}
+          className="relative h-28 touch-none"
+          onPointerDown={handleAreaPointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={() => setDragIndex(null)}
+          onPointerCancel={() => setDragIndex(null)}
+        >
+          <svg
+            viewBox="0 0 100 100"
+            preserveAspectRatio="none"
+            className="absolute inset-0 size-full overflow-visible"
+          >
+            <line
+              x1="0"
+              y1="100"
+              x2="100"
+              y2="0"
+              className="stroke-white/15"
+              vectorEffect="non-scaling-stroke"
+              strokeDasharray="4 4"
+            />
+            {mode === "cubicBezier" && (
+              <g className="stroke-white/40">
+                <line
+                  x1="0"
+                  y1="100"
+                  x2={bezier[0] * 100}
+                  y2={(1 - bezier[1]) * 100}
+                  vectorEffect="non-scaling-stroke"
+                />
+                <line
+                  x1="100"
+                  y1="0"
+                  x2={bezier[2] * 100}
+                  y2={(1 - bezier[3]) * 100}
+                  vectorEffect="non-scaling-stroke"
+                />
+              </g>
+            )}
+            <path
+              d={curvePath}
+              fill="none"
+              className="stroke-white/90"
+              strokeWidth={2}
+              vectorEffect="non-scaling-stroke"
+            />
+          </svg>
+          {points.map((point, index) => (
+            <div
+              key={index}
+              className="absolute size-3 -translate-x-1/2 -translate-y-1/2 rounded-full bg-white shadow-sm cursor-grab active:cursor-grabbing data-[disabled=true]:pointer-events-none"
+              data-disabled={disabled}
+              style={{
+                left: `${point.x * 100}%`,
+                top: `${(1 - point.y) * 100}%`,
+              }}
+              onPointerDown={(e) => {
+                e.stopPropagation();
+                setDragIndex(index);
+                areaRef.current?.setPointerCapture(e.pointerId);
+              }}
+              onDoubleClick={() => {
+                // Remove inner stops, but always keep the two ends
+                if (
+                  mode !== "multiStop" ||
+                  index === 0 ||
+                  index === sortedStops.length - 1
+                ) {
+                  return;
+                }
+                onStopsChange(sortedStops.filter((_, i) => i !== index));
+              }}
+            />
+          ))}
+        </div>
+      </div>
+      <div className="flex items-center justify-between text-xs text-white/60">
+        {mode === "cubicBezier" ? (
+          <span>
+            cubic-bezier({bezier.map((value) => value.toFixed(2)).join(", ")})
+          </span>
+        ) : (
+          <>
+            <span>Click to add a stop, double-click to remove</span>
+            <button
+              className="hover:text-white"
+              onClick={() => onStopsChange(DEFAULT_CURVE_STOPS)}
+              disabled={disabled}
+            >
+              Reset
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,219 @@
+import { X } from "lucide-react";
+import { useEffect, useState } from "react";
+import { getErrorMessage } from "../lib/errors";
+import {
+  DEFAULT_FILENAME_TEMPLATE,
+  downloadUrl,
+  EXPORT_FORMATS,
+  ExportFormat,
+  ExportMode,
+  ExportOptions,
+  formatFilename,
+  formatFileSize,
+} from "../lib/export";
+import { Button } from "./ui/button";
+import { Slider } from "./ui/slider";
+import { Tabs, TabsList, TabsTrigger } from "./ui/tabs";
+
+interface ExportDialogProps {
+  imageName: string;
+  getPixels: (mode: ExportMode) => Promise<ImageData | null>;
+  encodeImage: (imageData: ImageData, options: ExportOptions) => Promise<Blob>;
+  onClose: () => void;
+}
+
+const tabTriggerClassName =
+  "rounded-lg data-[state=active]:bg-white/90 data-[state=active]:text-neutral-700";
+
+export function ExportDialog({
+  imageName,
+  getPixels,
+  encodeImage,
+  onClose,
+}: ExportDialogProps) {
+  const [mode, setMode] = useState<ExportMode>("full");
+  const [format, setFormat] = useState<ExportFormat>("png");
+  const [quality, setQuality] = useState(0.9);
+  const [filenameTemplate, setFilenameTemplate] = useState(
+    DEFAULT_FILENAME_TEMPLATE
+  );
+  const [pixels, setPixels] = useState<ImageData | null>(null);
+  const [blob, setBlob] = useState<Blob | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const isLossy = EXPORT_FORMATS[format].lossy;
+
+  // Render the pixels for the selected mode once, re-encoding is much cheaper
+  useEffect(() => {
+    let isCurrent = true;
+    setPixels(null);
+    setError(null);
+    getPixels(mode)
+      .then((result) => {
+        if (isCurrent) setPixels(result);
+      })
+      .catch((err) => {
+        if (isCurrent) setError(getErrorMessage(err));
+      });
+    return () => {
+      isCurrent = false;
+    };
+  }, [mode, getPixels]);
+
+  // Encode in the worker whenever the output settings change, so the size
+  // preview always matches the file that will be downloaded
+  useEffect(() => {
+    if (!pixels) return;
+
+    let isCurrent = true;
+    setBlob(null);
+    setError(null);
+    encodeImage(pixels, { format, quality })
+      .then((result) => {
+        if (isCurrent) setBlob(result);
+      })
+      .catch((err) => {
+        if (isCurrent) setError(getErrorMessage(err));
+      });
+    return () => {
+      isCurrent = false;
+    };
+  }, [pixels, format, quality, encodeImage]);
+
+  // Close on escape
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [onClose]);
+
+  const filename = formatFilename(filenameTemplate, {
+    name: imageName,
+    width: pixels?.width ?? 0,
+    height: pixels?.height ?? 0,
+    format,
+  });
+
+  const handleDownload = () => {
+    if (!blob) return;
+
+    const url = URL.createObjectURL(blob);
+    downloadUrl(url, filename);
+    // Give the browser a moment to start the download before releasing it
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+    onClose();
+  };
+
+  return (
+    <div
+      className="absolute inset-0 z-30 flex items-center justify-center bg-neutral-950/60 p-6"
+      onPointerDown={(e) => {
+        if (e.target === e.currentTarget) onClose();
+      }}
+    >
+      <div
+        role="dialog"
+        aria-label="Export image"
+        className="w-full max-w-[400px] bg-neutral-800/80 text-white p-4 rounded-3xl shadow-settings backdrop-blur-lg backdrop-saturate-180"
+      >
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-base font-bold">Export image</h2>
+          <button
+            onClick={onClose}
+            className="text-white/70 hover:text-white"
+            aria-label="Close"
+          >
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="space-y-4">
+          <Tabs
+            value={mode}
+            onValueChange={(value) => setMode(value as ExportMode)}
+          >
+            <TabsList className="w-full grid grid-cols-2 bg-white/6 text-white/75 rounded-xl">
+              <TabsTrigger value="full" className={tabTriggerClassName}>
+                Full resolution
+              </TabsTrigger>
+              <TabsTrigger value="viewport" className={tabTriggerClassName}>
+                Current view
+              </TabsTrigger>
+            </TabsList>
+          </Tabs>
+
+          <Tabs
+            value={format}
+            onValueChange={(value) => setFormat(value as ExportFormat)}
+          >
+            <TabsList className="w-full grid grid-cols-3 bg-white/6 text-white/75 rounded-xl">
+              {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map((key) => (
+                <TabsTrigger
+                  key={key}
+                  value={key}
+                  className={tabTriggerClassName}
+                >
+                  {EXPORT_FORMATS[key].label}
+                </TabsTrigger>
+              ))}
+            </TabsList>
+          </Tabs>
+
+          <div className="space-y-2">
+            <label className="text-sm font-medium text-white/90">
+              Quality: {isLossy ? `${Math.round(quality * 100)}%` : "Lossless"}
+            </label>
+            <Slider
+              min={0.1}
+              max={1}
+              step={0.01}
+              value={[quality]}
+              onValueChange={(values) => setQuality(values[0])}
+              disabled={!isLossy}
+            />
+          </div>
+
+          <div className="space-y-1">
+            <label className="text-sm font-medium text-white/90">
+              File name
+            </label>
+            <input
+              type="text"
+              value={filenameTemplate}
+              onChange={(e) => setFilenameTemplate(e.target.value)}
+              className="w-full h-8 px-2 text-sm rounded-lg bg-white/6 text-white"
+              spellCheck={false}
+            />
+            <div className="text-xs text-white/60 truncate">
+              {filename} · use {"{name}"}, {"{width}"}, {"{height}"},{" "}
+              {"{timestamp}"}
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between gap-3">
+            {error ? (
+              <div role="alert" className="text-sm text-red-300">
+                {error}
+              </div>
+            ) : (
+              <div className="text-sm text-white/70">
+                {pixels ? `${pixels.width} × ${pixels.height}` : "Rendering…"}
+                {pixels && (blob ? ` · ${formatFileSize(blob.size)}` : " · …")}
+              </div>
+            )}
+            <Button
+              onClick={handleDownload}
+              disabled={!blob}
+              className="bg-white/90 hover:bg-white text-neutral-800 rounded-xl"
+            >
+              Download
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
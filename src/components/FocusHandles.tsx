@@ -0,0 +1,190 @@
+import { useRef } from "react";
+import {
+  BlurConfig,
+  MAX_FOCUS_ASPECT,
+  MIN_BLUR_RANGE,
+  MIN_FOCUS_ASPECT,
+} from "../lib/blurConfig";
+import { CoverFit } from "../lib/export";
+import { getGradientDirection } from "../lib/gradient";
+import { getFocusAspect, getFocusUnit } from "../lib/mask";
+
+interface FocusHandlesProps {
+  blurConfig: BlurConfig;
+  setBlurConfig: React.Dispatch<React.SetStateAction<BlurConfig>>;
+  // Where the frame the settings are relative to sits in the view, it only
+  // covers the whole view at the fill zoom
+  frame: CoverFit;
+  width: number;
+  height: number;
+}
+
+type DragTarget = "center" | "start" | "end" | "aspect";
+
+const clamp = (value: number, min: number, max: number) =>
+  Math.min(max, Math.max(min, value));
+
+// Draggable overlay for the focus masks: the center, the sharp inner radius
+// (startPoint), the fully blurred outer radius (endPoint) and, for ellipses,
+// the aspect ratio on the minor axis.
+export function FocusHandles({
+  blurConfig,
+  setBlurConfig,
+  frame,
+  width,
+  height,
+}: FocusHandlesProps) {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const dragTargetRef = useRef<DragTarget | null>(null);
+
+  const { maskMode, angle, focusX, focusY, startPoint, endPoint } = blurConfig;
+  const isTiltShift = maskMode === "tiltShift";
+  const aspect = getFocusAspect(blurConfig);
+  const unit = getFocusUnit(maskMode, frame.drawWidth, frame.drawHeight, angle);
+
+  // Ellipse minor axis / band normal, and the ellipse major axis
+  const [dx, dy] = getGradientDirection(angle);
+  const [mx, my] = [dy, -dx];
+  const cx = frame.offsetX + focusX * frame.drawWidth;
+  const cy = frame.offsetY + focusY * frame.drawHeight;
+  const innerRadius = startPoint * unit;
+  const outerRadius = endPoint * unit;
+
+  // Tilt-shift handles sit on the band normal, ellipse ones on the major axis
+  const [ax, ay] = isTiltShift ? [dx, dy] : [mx, my];
+  const handles: { target: DragTarget; x: number; y: number }[] = [
+    { target: "center", x: cx, y: cy },
+    { target: "start", x: cx + ax * innerRadius, y: cy + ay * innerRadius },
+    { target: "end", x: cx + ax * outerRadius, y: cy + ay * outerRadius },
+  ];
+  if (maskMode === "elliptical") {
+    handles.push({
+      target: "aspect",
+      x: cx + dx * (outerRadius / aspect),
+      y: cy + dy * (outerRadius / aspect),
+    });
+  }
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const target = dragTargetRef.current;
+    const rect = svgRef.current?.getBoundingClientRect();
+    if (!target || !rect) return;
+
+    const x = e.clientX - rect.left;
+    const y = e.clientY - rect.top;
+
+    if (target === "center") {
+      setBlurConfig((prev) => ({
+        ...prev,
+        focusX: clamp((x - frame.offsetX) / frame.drawWidth, 0, 1),
+        focusY: clamp((y - frame.offsetY) / frame.drawHeight, 0, 1),
+      }));
+      return;
+    }
+
+    if (target === "aspect") {
+      const minorRadius = Math.abs((x - cx) * dx + (y - cy) * dy);
+      setBlurConfig((prev) => ({
+        ...prev,
+        focusAspect: clamp(
+          outerRadius / Math.max(minorRadius, 1),
+          MIN_FOCUS_ASPECT,
+          MAX_FOCUS_ASPECT
+        ),
+      }));
+      return;
+    }
+
+    const distance = clamp(
+      Math.abs((x - cx) * ax + (y - cy) * ay) / unit,
+      0,
+      1
+    );
+    setBlurConfig((prev) =>
+      target === "start"
+        ? {
+            ...prev,
+            startPoint: Math.min(distance, prev.endPoint - MIN_BLUR_RANGE),
+          }
+        : {
+            ...prev,
+            endPoint: Math.max(distance, prev.startPoint + MIN_BLUR_RANGE),
+          }
+    );
+  };
+
+  // Long enough to cross the whole view at any angle, also when zooming has
+  // moved the center far outside of it
+  const bandLength =
+    Math.hypot(width, height) +
+    Math.hypot(cx - width / 2, cy - height / 2) +
+    outerRadius;
+  const renderBandEdge = (offset: number, key: string) => (
+    <line
+      key={key}
+      x1={cx + dx * offset - mx * bandLength}
+      y1={cy + dy * offset - my * bandLength}
+      x2={cx + dx * offset + mx * bandLength}
+      y2={cy + dy * offset + my * bandLength}
+    />
+  );
+
+  return (
+    <svg
+      ref={svgRef}
+      width={width}
+      height={height}
+      className="absolute top-0 left-0 z-10 pointer-events-none"
+      onPointerMove={handlePointerMove}
+      onPointerUp={() => (dragTargetRef.current = null)}
+      onPointerCancel={() => (dragTargetRef.current = null)}
+    >
+      <g
+        fill="none"
+        stroke="white"
+        strokeOpacity={0.7}
+        strokeWidth={1.5}
+        strokeDasharray="6 4"
+      >
+        {isTiltShift ? (
+          [
+            renderBandEdge(innerRadius, "inner-a"),
+            renderBandEdge(-innerRadius, "inner-b"),
+            renderBandEdge(outerRadius, "outer-a"),
+            renderBandEdge(-outerRadius, "outer-b"),
+          ]
+        ) : (
+          <g transform={`rotate(${-angle} ${cx} ${cy})`}>
+            <ellipse
+              cx={cx}
+              cy={cy}
+              rx={innerRadius}
+              ry={innerRadius / aspect}
+            />
+            <ellipse
+              cx={cx}
+              cy={cy}
+              rx={outerRadius}
+              ry={outerRadius / aspect}
+            />
+          </g>
+        )}
+      </g>
+      {handles.map(({ target, x, y }) => (
+        <circle
+          key={target}
+          cx={x}
+          cy={y}
+          r={target === "center" ? 9 : 7}
+          className="fill-white/90 stroke-neutral-800/40 pointer-events-auto cursor-grab active:cursor-grabbing touch-none"
+          strokeWidth={2}
+          onPointerDown={(e) => {
+            e.stopPropagation();
+            dragTargetRef.current = target;
+            e.currentTarget.setPointerCapture(e.pointerId);
+          }}
+        />
+      ))}
+    </svg>
+  );
+}
@@ -0,0 +1,85 @@
+import { BlurConfig, MAX_GLASS_FACTOR } from "../lib/blurConfig";
+import { Slider } from "./ui/slider";
+
+interface GlassControlsProps {
+  blurConfig: BlurConfig;
+  setBlurConfig: React.Dispatch<React.SetStateAction<BlurConfig>>;
+  disabled?: boolean;
+}
+
+// Frosted glass settings. Each one fades in along the blur range, so the
+// sharp part of the image stays untouched.
+export function GlassControls({
+  blurConfig,
+  setBlurConfig,
+  disabled,
+}: GlassControlsProps) {
+  return (
+    <div className="grid grid-cols-2 gap-x-4 gap-y-2">
+      <div className="flex items-center justify-between">
+        <label className="text-sm font-medium text-white/90">
+          Tint: {Math.round(blurConfig.tintOpacity * 100)}%
+        </label>
+        <input
+          type="color"
+          value={blurConfig.tintColor}
+          onChange={(e) =>
+            setBlurConfig((prev) => ({ ...prev, tintColor: e.target.value }))
+          }
+          className="size-5 rounded-sm bg-transparent cursor-pointer disabled:cursor-default"
+          aria-label="Tint color"
+          disabled={disabled}
+        />
+      </div>
+      <label className="text-sm font-medium text-white/90">
+        Saturation: {Math.round(blurConfig.saturation * 100)}%
+      </label>
+      <Slider
+        min={0}
+        max={1}
+        step={0.01}
+        value={[blurConfig.tintOpacity]}
+        onValueChange={(values) =>
+          setBlurConfig((prev) => ({ ...prev, tintOpacity: values[0] }))
+        }
+        disabled={disabled}
+      />
+      <Slider
+        min={0}
+        max={MAX_GLASS_FACTOR}
+        step={0.01}
+        value={[blurConfig.saturation]}
+        onValueChange={(values) =>
+          setBlurConfig((prev) => ({ ...prev, saturation: values[0] }))
+        }
+        disabled={disabled}
+      />
+      <label className="text-sm font-medium text-white/90">
+        Brightness: {Math.round(blurConfig.brightness * 100)}%
+      </label>
+      <label className="text-sm font-medium text-white/90">
+        Grain: {Math.round(blurConfig.noise * 100)}%
+      </label>
+      <Slider
+        min={0}
+        max={MAX_GLASS_FACTOR}
+        step={0.01}
+        value={[blurConfig.brightness]}
+        onValueChange={(values) =>
+          setBlurConfig((prev) => ({ ...prev, brightness: values[0] }))
+        }
+        disabled={disabled}
+      />
+      <Slider
+        min={0}
+        max={1}
+        step={0.01}
+        value={[blurConfig.noise]}
+        onValueChange={(values) =>
+          setBlurConfig((prev) => ({ ...prev, noise: values[0] }))
+        }
+        disabled={disabled}
+      />
+    </div>
+  );
+}
@@ -1,37 +1,42 @@
-import { Upload } from "lucide-react";
+import { MonitorUp, Rainbow, Upload, Webcam } from "lucide-react";
 import { useRef } from "react";
-import sampleImage1 from "../assets/sample-image-1.jpg";
-import sampleImage2 from "../assets/sample-image-2.jpg";
-import sampleImage3 from "../assets/sample-image-3.jpg";
+import { LIVE_SOURCE_LABELS, LiveSourceKind } from "../lib/live";
+import { SAMPLE_IMAGES } from "../lib/sampleImages";
 import { Button } from "./ui/button";
 
 interface ImageUploaderProps {
-  onImageSelect: (imageDataUrl: string) => void;
+  // Sample images also pass their id, so share links can reopen them
+  onImageSelect: (
+    imageDataUrl: string,
+    fileName: string,
+    sampleId?: string
+  ) => void;
+  // A file from the picker, which may be a clip
+  onFileSelect: (file: File) => void;
+  // Several files at once go to the batch queue
+  onBatchSelect: (files: File[]) => void;
+  onLiveSelect: (kind: LiveSourceKind) => void;
   isDragging: boolean;
 }
 
+const LIVE_SOURCE_ICONS: Record<LiveSourceKind, typeof Webcam> = {
+  camera: Webcam,
+  screen: MonitorUp,
+  test: Rainbow,
+};
+
 export function ImageUploader({
   onImageSelect,
+  onFileSelect,
+  onBatchSelect,
+  onLiveSelect,
   isDragging,
 }: ImageUploaderProps) {
   const fileInputRef = useRef<HTMLInputElement>(null);
 
-  // Handle file upload
-  const handleFileUpload = (file: File) => {
-    if (file && file.type.startsWith("image/")) {
-      const reader = new FileReader();
-      reader.onload = (e) => {
-        if (e.target?.result) {
-          onImageSelect(e.target.result as string);
-        }
-      };
-      reader.readAsDataURL(file);
-    }
-  };
-
   // Handle built-in image selection
-  const handleSelectBuiltInImage = (imageSrc: string) => {
-    onImageSelect(imageSrc);
+  const handleSelectBuiltInImage = (imageSrc: string, sampleId: string) => {
+    onImageSelect(imageSrc, imageSrc, sampleId);
   };
 
   return (
@@ -47,7 +52,8 @@ export function ImageUploader({
           </div>
           <h2 className="text-xl font-bold mb-2">Upload an image</h2>
           <p className="text-white/70 text-sm">
-            Drag and drop an image here, or click to select a file
+            Drag and drop images or a short video here, or click to select
+            files. Several images are queued for batch processing.
           </p>
         </div>
 
@@ -55,44 +61,59 @@ export function ImageUploader({
           onClick={() => fileInputRef.current?.click()}
           className="w-full bg-white/10 hover:bg-white/20 text-white mb-6 rounded-xl"
         >
-          Select image
+          Select images
         </Button>
 
         <input
           ref={fileInputRef}
           type="file"
-          accept="image/*"
+          accept="image/*,video/*"
+          multiple
           className="hidden"
           onChange={(e) => {
-            if (e.target.files && e.target.files[0]) {
-              handleFileUpload(e.target.files[0]);
+            const files = Array.from(e.target.files ?? []);
+            if (files.length > 1) {
+              onBatchSelect(files);
+            } else if (files[0]) {
+              onFileSelect(files[0]);
             }
+            // Picking the same files again should still be noticed
+            e.target.value = "";
           }}
         />
 
+        <div className="text-sm text-white/70 mb-4">Or go live:</div>
+
+        <div className="grid grid-cols-3 gap-2 mb-6">
+          {(Object.keys(LIVE_SOURCE_LABELS) as LiveSourceKind[]).map((kind) => {
+            const Icon = LIVE_SOURCE_ICONS[kind];
+            return (
+              <Button
+                key={kind}
+                onClick={() => onLiveSelect(kind)}
+                className="bg-white/10 hover:bg-white/20 text-white rounded-xl"
+              >
+                <Icon size={16} />
+                {LIVE_SOURCE_LABELS[kind]}
+              </Button>
+            );
+          })}
+        </div>
+
         <div className="text-sm text-white/70 mb-4">
           Or try with a sample image:
         </div>
 
         <div className="flex grid-cols-1 gap-2">
-          <button
-            onClick={() => handleSelectBuiltInImage(sampleImage1)}
-            className="rounded-xl overflow-hidden flex-1"
-          >
-            <img src={sampleImage1} alt="" />
-          </button>
-          <button
-            onClick={() => handleSelectBuiltInImage(sampleImage2)}
-            className="rounded-xl overflow-hidden flex-1"
-          >
-            <img src={sampleImage2} alt="" />
-          </button>
-          <button
-            onClick={() => handleSelectBuiltInImage(sampleImage3)}
-            className="rounded-xl overflow-hidden flex-1"
-          >
-            <img src={sampleImage3} alt="" />
-          </button>
+          {SAMPLE_IMAGES.map((image) => (
+            <button
+              key={image.id}
+              onClick={() => handleSelectBuiltInImage(image.src, image.id)}
+              className="rounded-xl overflow-hidden flex-1"
+            >
+              <img src={image.src} alt="" />
+            </button>
+          ))}
         </div>
       </div>
     </div>
@@ -0,0 +1,74 @@
+import { Aperture, CircleStop, LoaderCircle } from "lucide-react";
+import { LiveStats } from "../hooks/useLiveSource";
+import { LIVE_SOURCE_LABELS, LiveSourceKind } from "../lib/live";
+import { Button } from "./ui/button";
+
+interface LiveViewProps {
+  canvasRef: React.RefObject<HTMLCanvasElement | null>;
+  source: LiveSourceKind;
+  stats: LiveStats | null;
+  isSnapshotting: boolean;
+  onSnapshot: () => void;
+  onStop: () => void;
+}
+
+const iconButtonClassName =
+  "size-9 p-0 bg-white/6 hover:bg-white/12 text-white rounded-full";
+
+// Blurred live source filling the window, with a readout of how fast and at
+// which resolution it renders
+export function LiveView({
+  canvasRef,
+  source,
+  stats,
+  isSnapshotting,
+  onSnapshot,
+  onStop,
+}: LiveViewProps) {
+  return (
+    <>
+      <canvas
+        ref={canvasRef}
+        className="absolute top-0 left-0 w-full h-full z-10 bg-neutral-950"
+      />
+
+      <div className="absolute top-4 left-4 z-20 flex items-center gap-1 p-1 rounded-full bg-neutral-800/80 backdrop-blur-md text-white">
+        <span className="flex items-center gap-1.5 pl-2.5 pr-1 text-sm font-medium">
+          <span className="size-2 rounded-full bg-red-500 animate-pulse" />
+          {LIVE_SOURCE_LABELS[source]}
+        </span>
+        <span
+          className="px-2 text-xs text-white/75 tabular-nums"
+          title={
+            stats ? `Rendering at ${stats.width} × ${stats.height}` : undefined
+          }
+        >
+          {stats
+            ? `${Math.round(stats.fps)} fps · ${Math.round(stats.scale * 100)}%`
+            : "Starting…"}
+        </span>
+        <Button
+          onClick={onSnapshot}
+          disabled={isSnapshotting}
+          className={iconButtonClassName}
+          aria-label="Download snapshot"
+          title="Download the current frame at full resolution"
+        >
+          {isSnapshotting ? (
+            <LoaderCircle size={16} className="animate-spin" />
+          ) : (
+            <Aperture size={16} />
+          )}
+        </Button>
+        <Button
+          onClick={onStop}
+          className={iconButtonClassName}
+          aria-label="Stop live source"
+          title="Stop"
+        >
+          <CircleStop size={16} />
+        </Button>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,112 @@
+import { Brush, Eraser, ImageUp, Trash2 } from "lucide-react";
+import { useRef } from "react";
+import { BrushSettings } from "../hooks/useBlurMask";
+import { Button } from "./ui/button";
+import { Slider } from "./ui/slider";
+import { Tabs, TabsList, TabsTrigger } from "./ui/tabs";
+
+interface MaskBrushControlsProps {
+  brush: BrushSettings;
+  setBrush: React.Dispatch<React.SetStateAction<BrushSettings>>;
+  onImportMask: (file: File) => void;
+  onClearMask: () => void;
+  disabled?: boolean;
+}
+
+export function MaskBrushControls({
+  brush,
+  setBrush,
+  onImportMask,
+  onClearMask,
+  disabled,
+}: MaskBrushControlsProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <Tabs
+          value={brush.erase ? "erase" : "paint"}
+          onValueChange={(value) =>
+            setBrush((prev) => ({ ...prev, erase: value === "erase" }))
+          }
+          className="flex-1"
+        >
+          <TabsList className="w-full grid grid-cols-2 bg-white/6 text-white/75 rounded-xl">
+            <TabsTrigger
+              value="paint"
+              disabled={disabled}
+              className="rounded-lg data-[state=active]:bg-white/90 data-[state=active]:text-neutral-700"
+            >
+              <Brush size={14} /> Paint
+            </TabsTrigger>
+            <TabsTrigger
+              value="erase"
+              disabled={disabled}
+              className="rounded-lg data-[state=active]:bg-white/90 data-[state=active]:text-neutral-700"
+            >
+              <Eraser size={14} /> Erase
+            </TabsTrigger>
+          </TabsList>
+        </Tabs>
+        <Button
+          onClick={() => fileInputRef.current?.click()}
+          className="size-9 p-0 bg-white/6 hover:bg-white/12 text-white rounded-lg"
+          aria-label="Import mask image"
+          disabled={disabled}
+        >
+          <ImageUp size={16} />
+        </Button>
+        <Button
+          onClick={onClearMask}
+          className="size-9 p-0 bg-white/6 hover:bg-white/12 text-white rounded-lg"
+          aria-label="Clear mask"
+          disabled={disabled}
+        >
+          <Trash2 size={16} />
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="image/*"
+          className="hidden"
+          onChange={(e) => {
+            if (e.target.files && e.target.files[0]) {
+              onImportMask(e.target.files[0]);
+            }
+            // Allow importing the same file again
+            e.target.value = "";
+          }}
+        />
+      </div>
+      <div className="grid grid-cols-2 gap-x-4 gap-y-2">
+        <label className="text-sm font-medium text-white/90">
+          Brush Size: {brush.size}px
+        </label>
+        <label className="text-sm font-medium text-white/90">
+          Hardness: {Math.round(brush.hardness * 100)}%
+        </label>
+        <Slider
+          min={4}
+          max={400}
+          step={1}
+          value={[brush.size]}
+          onValueChange={(values) =>
+            setBrush((prev) => ({ ...prev, size: values[0] }))
+          }
+          disabled={disabled}
+        />
+        <Slider
+          min={0}
+          max={1}
+          step={0.01}
+          value={[brush.hardness]}
+          onValueChange={(values) =>
+            setBrush((prev) => ({ ...prev, hardness: values[0] }))
+          }
+          disabled={disabled}
+        />
+      </div>
+    </div>
+  );
+}
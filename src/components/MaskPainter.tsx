@@ -0,0 +1,148 @@
+import { useCallback, useEffect, useRef } from "react";
+import { BrushSettings, MaskPoint } from "../hooks/useBlurMask";
+import { CoverFit } from "../lib/export";
+
+interface MaskPainterProps {
+  maskCanvasRef: React.RefObject<HTMLCanvasElement | null>;
+  maskVersion: number;
+  fit: CoverFit;
+  width: number;
+  height: number;
+  brush: BrushSettings;
+  onStroke: (
+    from: MaskPoint,
+    to: MaskPoint,
+    brushSize: number,
+    brush: BrushSettings
+  ) => void;
+  onStrokeEnd: () => void;
+}
+
+// Tint color used to visualize where the mask blurs
+const MASK_TINT = "rgba(239, 68, 68, 0.45)";
+
+// Canvas overlay that shows the custom mask and lets the user paint on it.
+// Painting happens in mask space, the blur only re-renders when a stroke ends.
+export function MaskPainter({
+  maskCanvasRef,
+  maskVersion,
+  fit,
+  width,
+  height,
+  brush,
+  onStroke,
+  onStrokeEnd,
+}: MaskPainterProps) {
+  const overlayRef = useRef<HTMLCanvasElement>(null);
+  const tintCanvasRef = useRef<HTMLCanvasElement | null>(null);
+  const lastPointRef = useRef<MaskPoint | null>(null);
+  const cursorRef = useRef<{ x: number; y: number } | null>(null);
+
+  const redraw = useCallback(() => {
+    const overlay = overlayRef.current;
+    const mask = maskCanvasRef.current;
+    const ctx = overlay?.getContext("2d");
+    if (!overlay || !ctx) return;
+
+    const pixelRatio = window.devicePixelRatio || 1;
+    overlay.width = Math.floor(width * pixelRatio);
+    overlay.height = Math.floor(height * pixelRatio);
+    ctx.setTransform(pixelRatio, 0, 0, pixelRatio, 0, 0);
+    ctx.clearRect(0, 0, width, height);
+
+    if (mask) {
+      // Colorize the mask's alpha on a scratch canvas, then lay it over the image
+      const tint = (tintCanvasRef.current ??= document.createElement("canvas"));
+      tint.width = mask.width;
+      tint.height = mask.height;
+      const tintCtx = tint.getContext("2d");
+      if (tintCtx) {
+        tintCtx.drawImage(mask, 0, 0);
+        tintCtx.globalCompositeOperation = "source-in";
+        tintCtx.fillStyle = MASK_TINT;
+        tintCtx.fillRect(0, 0, tint.width, tint.height);
+        tintCtx.globalCompositeOperation = "source-over";
+        ctx.drawImage(
+          tint,
+          fit.offsetX,
+          fit.offsetY,
+          fit.drawWidth,
+          fit.drawHeight
+        );
+      }
+    }
+
+    // Brush outline
+    const cursor = cursorRef.current;
+    if (cursor) {
+      ctx.beginPath();
+      ctx.arc(cursor.x, cursor.y, brush.size / 2, 0, Math.PI * 2);
+      ctx.strokeStyle = "rgba(255, 255, 255, 0.8)";
+      ctx.lineWidth = 1.5;
+      ctx.stroke();
+    }
+  }, [maskCanvasRef, fit, width, height, brush.size]);
+
+  useEffect(() => {
+    redraw();
+  }, [redraw, maskVersion]);
+
+  // Convert a pointer position to mask pixels
+  const toMaskPoint = (x: number, y: number): MaskPoint | null => {
+    const mask = maskCanvasRef.current;
+    if (!mask) return null;
+    return {
+      x: ((x - fit.offsetX) / fit.drawWidth) * mask.width,
+      y: ((y - fit.offsetY) / fit.drawHeight) * mask.height,
+    };
+  };
+
+  const paintTo = (x: number, y: number) => {
+    const mask = maskCanvasRef.current;
+    const point = toMaskPoint(x, y);
+    if (!mask || !point) return;
+
+    const brushSize = (brush.size / fit.drawWidth) * mask.width;
+    onStroke(lastPointRef.current ?? point, point, brushSize, brush);
+    lastPointRef.current = point;
+  };
+
+  const getLocalPosition = (e: React.PointerEvent) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+  };
+
+  const endStroke = () => {
+    if (!lastPointRef.current) return;
+    lastPointRef.current = null;
+    onStrokeEnd();
+  };
+
+  return (
+    <canvas
+      ref={overlayRef}
+      className="absolute top-0 left-0 z-10 touch-none cursor-none"
+      style={{ width, height }}
+      onPointerDown={(e) => {
+        e.currentTarget.setPointerCapture(e.pointerId);
+        const { x, y } = getLocalPosition(e);
+        paintTo(x, y);
+        redraw();
+      }}
+      onPointerMove={(e) => {
+        const { x, y } = getLocalPosition(e);
+        cursorRef.current = { x, y };
+        if (e.currentTarget.hasPointerCapture(e.pointerId)) {
+          paintTo(x, y);
+        }
+        redraw();
+      }}
+      onPointerUp={endStroke}
+      onPointerCancel={endStroke}
+      onPointerLeave={() => {
+        cursorRef.current = null;
+        redraw();
+      }}
+    />
+  );
+}
@@ -0,0 +1,249 @@
+import {
+  BookmarkPlus,
+  Check,
+  ChevronDown,
+  ChevronUp,
+  FileDown,
+  FileUp,
+  ListOrdered,
+  Trash2,
+  X,
+} from "lucide-react";
+import { useRef, useState } from "react";
+import { usePresets } from "../hooks/usePresets";
+import { BlurConfig } from "../lib/blurConfig";
+import { BUILT_IN_PRESETS, isPresetConfig } from "../lib/presets";
+import { Button } from "./ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from "./ui/select";
+
+interface PresetPickerProps {
+  blurConfig: BlurConfig;
+  onApply: (config: BlurConfig) => void;
+}
+
+const iconButtonClassName =
+  "size-8 p-0 bg-white/6 hover:bg-white/12 text-white rounded-lg";
+
+// Preset dropdown of the settings panel, plus saving the current settings
+// and managing (renaming, reordering, sharing) the saved ones
+export function PresetPicker({ blurConfig, onApply }: PresetPickerProps) {
+  const {
+    userPresets,
+    savePreset,
+    renamePreset,
+    deletePreset,
+    movePreset,
+    importPresets,
+    exportPresets,
+  } = usePresets();
+  const [newName, setNewName] = useState<string | null>(null);
+  const [isManaging, setIsManaging] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const presets = [...BUILT_IN_PRESETS, ...userPresets];
+  // Selected while the settings still match a preset exactly
+  const activePreset = presets.find((preset) =>
+    isPresetConfig(preset, blurConfig)
+  );
+
+  const handleSave = () => {
+    if (!newName?.trim()) return;
+    savePreset(newName, blurConfig);
+    setNewName(null);
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      const count = await importPresets(file);
+      setMessage(`Imported ${count} preset${count === 1 ? "" : "s"}.`);
+    } catch (err) {
+      setMessage(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <Select
+          value={activePreset?.id ?? ""}
+          onValueChange={(id) => {
+            const preset = presets.find((preset) => preset.id === id);
+            if (preset) onApply(preset.config);
+          }}
+        >
+          <SelectTrigger className="flex-1 bg-white/6 border-none text-white rounded-lg h-8">
+            <SelectValue placeholder="Custom settings" />
+          </SelectTrigger>
+          <SelectContent className="bg-neutral-800/80 text-white backdrop-blur-lg rounded-xl border-none p-.5 shadow-sm">
+            <SelectGroup>
+              <SelectLabel className="text-white/60">Built-in</SelectLabel>
+              {BUILT_IN_PRESETS.map((preset) => (
+                <SelectItem
+                  key={preset.id}
+                  value={preset.id}
+                  className="rounded-lg"
+                >
+                  {preset.name}
+                </SelectItem>
+              ))}
+            </SelectGroup>
+            {userPresets.length > 0 && (
+              <SelectGroup>
+                <SelectLabel className="text-white/60">Saved</SelectLabel>
+                {userPresets.map((preset) => (
+                  <SelectItem
+                    key={preset.id}
+                    value={preset.id}
+                    className="rounded-lg"
+                  >
+                    {preset.name}
+                  </SelectItem>
+                ))}
+              </SelectGroup>
+            )}
+          </SelectContent>
+        </Select>
+        <Button
+          onClick={() => setNewName(newName === null ? "" : null)}
+          className={iconButtonClassName}
+          aria-label="Save settings as preset"
+          aria-pressed={newName !== null}
+        >
+          <BookmarkPlus size={16} />
+        </Button>
+        <Button
+          onClick={() => {
+            setIsManaging(!isManaging);
+            setMessage(null);
+          }}
+          className={iconButtonClassName}
+          aria-label="Manage presets"
+          aria-pressed={isManaging}
+        >
+          <ListOrdered size={16} />
+        </Button>
+      </div>
+
+      {newName !== null && (
+        <form
+          className="flex items-center gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            handleSave();
+          }}
+        >
+          <input
+            type="text"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Escape") setNewName(null);
+            }}
+            placeholder="Preset name"
+            className="flex-1 h-8 px-2 text-sm rounded-lg bg-white/6 text-white"
+            autoFocus
+          />
+          <Button
+            type="submit"
+            className={iconButtonClassName}
+            aria-label="Save preset"
+            disabled={!newName.trim()}
+          >
+            <Check size={16} />
+          </Button>
+          <Button
+            type="button"
+            onClick={() => setNewName(null)}
+            className={iconButtonClassName}
+            aria-label="Cancel"
+          >
+            <X size={16} />
+          </Button>
+        </form>
+      )}
+
+      {isManaging && (
+        <div className="space-y-2">
+          {userPresets.length === 0 && (
+            <div className="text-xs text-white/60">
+              No saved presets yet. Save the current settings or import a preset
+              file.
+            </div>
+          )}
+          {userPresets.map((preset, index) => (
+            <div key={preset.id} className="flex items-center gap-1">
+              <input
+                type="text"
+                value={preset.name}
+                onChange={(e) => renamePreset(preset.id, e.target.value)}
+                aria-label="Preset name"
+                className="flex-1 h-8 px-2 text-sm rounded-lg bg-white/6 text-white"
+              />
+              <Button
+                onClick={() => movePreset(preset.id, -1)}
+                className={iconButtonClassName}
+                aria-label="Move up"
+                disabled={index === 0}
+              >
+                <ChevronUp size={16} />
+              </Button>
+              <Button
+                onClick={() => movePreset(preset.id, 1)}
+                className={iconButtonClassName}
+                aria-label="Move down"
+                disabled={index === userPresets.length - 1}
+              >
+                <ChevronDown size={16} />
+              </Button>
+              <Button
+                onClick={() => deletePreset(preset.id)}
+                className={iconButtonClassName}
+                aria-label="Delete preset"
+              >
+                <Trash2 size={16} />
+              </Button>
+            </div>
+          ))}
+          <div className="flex items-center gap-2">
+            <Button
+              onClick={() => fileInputRef.current?.click()}
+              className="h-8 flex-1 bg-white/6 hover:bg-white/12 text-white rounded-lg"
+            >
+              <FileUp size={16} /> Import
+            </Button>
+            <Button
+              onClick={() => exportPresets(userPresets)}
+              className="h-8 flex-1 bg-white/6 hover:bg-white/12 text-white rounded-lg"
+              disabled={userPresets.length === 0}
+            >
+              <FileDown size={16} /> Export
+            </Button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={(e) => {
+                if (e.target.files && e.target.files[0]) {
+                  handleImport(e.target.files[0]);
+                }
+                // Allow importing the same file again
+                e.target.value = "";
+              }}
+            />
+          </div>
+          {message && <div className="text-xs text-white/60">{message}</div>}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+import { useEffect, useRef, useState } from "react";
+import { applyProgressiveBlur } from "../lib/applyProgressiveBlur";
+import { BlurConfig } from "../lib/blurConfig";
+
+interface ProgressiveBlurImageProps extends Omit<
+  React.CanvasHTMLAttributes<HTMLCanvasElement>,
+  "children"
+> {
+  src: string;
+  alt?: string;
+  // Missing settings use the app defaults
+  config?: Partial<BlurConfig>;
+}
+
+// Drop-in image that shows src with the progressive blur applied. The canvas
+// has the natural size of the image, size it with CSS like an <img>.
+export function ProgressiveBlurImage({
+  src,
+  alt,
+  config,
+  ...props
+}: ProgressiveBlurImageProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [bitmap, setBitmap] = useState<ImageBitmap | null>(null);
+  // Inline config objects are new on every render, compare them by value
+  const configKey = JSON.stringify(config ?? {});
+
+  // Decode the source once, re-blurring doesn't need to load it again
+  useEffect(() => {
+    let isCurrent = true;
+    let decoded: ImageBitmap | null = null;
+    fetch(src)
+      .then((response) => response.blob())
+      .then((blob) => createImageBitmap(blob))
+      .then((result) => {
+        decoded = result;
+        if (isCurrent) setBitmap(result);
+        else result.close();
+      })
+      .catch((err) => console.error(`Could not load image "${src}":`, err));
+
+    return () => {
+      isCurrent = false;
+      decoded?.close();
+      setBitmap(null);
+    };
+  }, [src]);
+
+  useEffect(() => {
+    if (!bitmap) return;
+
+    let isCurrent = true;
+    applyProgressiveBlur(bitmap, JSON.parse(configKey))
+      .then((result) => {
+        const canvas = canvasRef.current;
+        const ctx = canvas?.getContext("2d");
+        if (isCurrent && canvas && ctx) {
+          canvas.width = result.width;
+          canvas.height = result.height;
+          ctx.drawImage(result, 0, 0);
+        }
+        result.close();
+      })
+      .catch((err) => console.error("Blur render failed:", err));
+
+    return () => {
+      isCurrent = false;
+    };
+  }, [bitmap, configKey]);
+
+  return <canvas ref={canvasRef} role="img" aria-label={alt} {...props} />;
+}
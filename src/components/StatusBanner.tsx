@@ -0,0 +1,36 @@
+import { CircleAlert, Info, X } from "lucide-react";
+
+interface StatusBannerProps {
+  message: string;
+  variant?: "error" | "info";
+  onDismiss?: () => void;
+}
+
+// Small banner at the top of the screen for render errors and notices
+export function StatusBanner({
+  message,
+  variant = "error",
+  onDismiss,
+}: StatusBannerProps) {
+  const Icon = variant === "error" ? CircleAlert : Info;
+
+  return (
+    <div
+      role={variant === "error" ? "alert" : "status"}
+      className="flex items-center gap-2 pl-3 pr-2 py-2 rounded-2xl bg-neutral-800/80 text-sm text-white shadow-settings backdrop-blur-md data-[variant=error]:bg-red-900/80"
+      data-variant={variant}
+    >
+      <Icon size={16} className="shrink-0" />
+      <span>{message}</span>
+      {onDismiss && (
+        <button
+          onClick={onDismiss}
+          className="text-white/70 hover:text-white"
+          aria-label="Dismiss"
+        >
+          <X size={16} />
+        </button>
+      )}
+    </div>
+  );
+}
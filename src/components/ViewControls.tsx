@@ -0,0 +1,51 @@
+import { ViewPreset } from "../lib/viewport";
+import { Button } from "./ui/button";
+
+interface ViewControlsProps {
+  // Device pixels per image pixel
+  zoom: number;
+  // Offer going back to the whole output frame
+  hasCrop: boolean;
+  onPresetSelect: (preset: ViewPreset) => void;
+}
+
+const PRESETS: { preset: ViewPreset; label: string; title: string }[] = [
+  { preset: "frame", label: "Frame", title: "Show the output frame" },
+  { preset: "fit", label: "Fit", title: "Show the whole image" },
+  { preset: "fill", label: "Fill", title: "Fill the window" },
+  {
+    preset: "actual",
+    label: "100%",
+    title: "One image pixel per screen pixel",
+  },
+];
+
+// Zoom presets and the current zoom level. Scroll or pinch on the image to
+// zoom freely, drag it to pan.
+export function ViewControls({
+  zoom,
+  hasCrop,
+  onPresetSelect,
+}: ViewControlsProps) {
+  const presets = hasCrop
+    ? PRESETS
+    : PRESETS.filter(({ preset }) => preset !== "frame");
+
+  return (
+    <div className="flex items-center gap-1 p-1 rounded-full bg-neutral-800/80 backdrop-blur-md">
+      <span className="w-14 text-center text-xs text-white/75 tabular-nums">
+        {`${Math.round(zoom * 100)}%`}
+      </span>
+      {presets.map(({ preset, label, title }) => (
+        <Button
+          key={preset}
+          onClick={() => onPresetSelect(preset)}
+          className="h-9 px-3 rounded-full bg-transparent hover:bg-white/12 text-xs text-white/75"
+          title={title}
+        >
+          {label}
+        </Button>
+      ))}
+    </div>
+  );
+}
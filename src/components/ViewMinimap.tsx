@@ -0,0 +1,85 @@
+import { CoverFit } from "../lib/export";
+
+interface ViewMinimapProps {
+  src: string;
+  // Where the image is drawn in the view, in CSS pixels
+  fit: CoverFit;
+  viewSize: { width: number; height: number };
+  onCenterChange: (centerX: number, centerY: number) => void;
+}
+
+// Longest side of the thumbnail, in CSS pixels
+const MINIMAP_SIZE = 160;
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+// Thumbnail of the whole image with the part in view outlined. Click or drag
+// on it to move the view. Hidden while the whole image fits in the window.
+export function ViewMinimap({
+  src,
+  fit,
+  viewSize,
+  onCenterChange,
+}: ViewMinimapProps) {
+  // Visible part of the image, 0–1
+  const left = clamp01(-fit.offsetX / fit.drawWidth);
+  const top = clamp01(-fit.offsetY / fit.drawHeight);
+  const right = clamp01((viewSize.width - fit.offsetX) / fit.drawWidth);
+  const bottom = clamp01((viewSize.height - fit.offsetY) / fit.drawHeight);
+
+  // Rounding can leave slivers of a fitted image out of view
+  const epsilon = 0.01;
+  if (
+    left < epsilon &&
+    top < epsilon &&
+    right > 1 - epsilon &&
+    bottom > 1 - epsilon
+  ) {
+    return null;
+  }
+
+  const aspect = fit.drawWidth / fit.drawHeight;
+  const width = aspect >= 1 ? MINIMAP_SIZE : MINIMAP_SIZE * aspect;
+  const height = aspect >= 1 ? MINIMAP_SIZE / aspect : MINIMAP_SIZE;
+
+  const updateFromPointer = (e: React.PointerEvent) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    onCenterChange(
+      (e.clientX - rect.left) / rect.width,
+      (e.clientY - rect.top) / rect.height
+    );
+  };
+
+  return (
+    <div
+      className="relative overflow-hidden rounded-lg bg-neutral-800/80 shadow-settings touch-none cursor-pointer"
+      style={{ width, height }}
+      aria-label="Minimap, drag to move the view"
+      onPointerDown={(e) => {
+        e.currentTarget.setPointerCapture(e.pointerId);
+        updateFromPointer(e);
+      }}
+      onPointerMove={(e) => {
+        if (e.currentTarget.hasPointerCapture(e.pointerId)) {
+          updateFromPointer(e);
+        }
+      }}
+    >
+      <img
+        src={src}
+        alt=""
+        draggable={false}
+        className="size-full opacity-75 pointer-events-none"
+      />
+      <div
+        className="absolute border-2 border-white/90 rounded-sm pointer-events-none"
+        style={{
+          left: `${left * 100}%`,
+          top: `${top * 100}%`,
+          width: `${(right - left) * 100}%`,
+          height: `${(bottom - top) * 100}%`,
+        }}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,217 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { BlurConfig } from "../lib/blurConfig";
+import { CropSettings, getFramePixels } from "../lib/crop";
+import { getErrorMessage } from "../lib/errors";
+import {
+  DEFAULT_FILENAME_TEMPLATE,
+  downloadUrl,
+  ExportOptions,
+  formatFilename,
+  getBaseName,
+} from "../lib/export";
+import { createZip, getUniqueName } from "../lib/zip";
+
+export type BatchStatus = "queued" | "processing" | "done" | "error";
+
+export interface BatchItem {
+  id: number;
+  file: File;
+  name: string;
+  // Object URL of the file, released when the item is removed
+  thumbnailUrl: string;
+  status: BatchStatus;
+  error?: string;
+  // Settings pinned to this item, it follows the editor's otherwise
+  config?: BlurConfig;
+  result?: { blob: Blob; filename: string };
+}
+
+// Editor settings every item is rendered with, unless it has its own
+export interface BatchSettings {
+  config: BlurConfig;
+  crop: CropSettings;
+  windowSize: { width: number; height: number };
+  pixelRatio: number;
+  output: ExportOptions;
+}
+
+type RenderImageData = (
+  imageData: ImageData,
+  config: BlurConfig,
+  mask?: ImageData | null
+) => Promise<ImageData>;
+
+type EncodeImage = (
+  imageData: ImageData,
+  options: ExportOptions
+) => Promise<Blob>;
+
+let nextItemId = 1;
+
+// Queue of images rendered one after another with the worker of the editor,
+// and downloaded together as a ZIP
+export function useBatchQueue(
+  renderImageData: RenderImageData,
+  encodeImage: EncodeImage
+) {
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  // Bumped to stop a run, like when the queue is cleared under it
+  const runRef = useRef(0);
+  const itemsRef = useRef(items);
+  itemsRef.current = items;
+
+  const updateItem = useCallback((id: number, update: Partial<BatchItem>) => {
+    setItems((prev) =>
+      prev.map((item) => (item.id === id ? { ...item, ...update } : item))
+    );
+  }, []);
+
+  const addFiles = useCallback((files: File[]) => {
+    const added = files
+      .filter((file) => file.type.startsWith("image/"))
+      .map((file): BatchItem => ({
+        id: nextItemId++,
+        file,
+        name: getBaseName(file.name),
+        thumbnailUrl: URL.createObjectURL(file),
+        status: "queued",
+      }));
+    setItems((prev) => [...prev, ...added]);
+    return added;
+  }, []);
+
+  const removeItem = useCallback((id: number) => {
+    setItems((prev) => {
+      const item = prev.find((item) => item.id === id);
+      if (item) URL.revokeObjectURL(item.thumbnailUrl);
+      return prev.filter((item) => item.id !== id);
+    });
+  }, []);
+
+  const clear = useCallback(() => {
+    runRef.current++;
+    setIsRunning(false);
+    setItems((prev) => {
+      prev.forEach((item) => URL.revokeObjectURL(item.thumbnailUrl));
+      return [];
+    });
+  }, []);
+
+  // Pin settings to an item, or pass undefined to have it follow the editor
+  // again. Either way its result is outdated.
+  const setItemConfig = useCallback(
+    (id: number, config: BlurConfig | undefined) => {
+      updateItem(id, { config, status: "queued", result: undefined });
+    },
+    [updateItem]
+  );
+
+  // Render every item again, one at a time so only one full resolution image
+  // is decoded at once
+  const processAll = useCallback(
+    async (settings: BatchSettings) => {
+      const run = ++runRef.current;
+      setIsRunning(true);
+      setItems((prev) =>
+        prev.map((item) => ({
+          ...item,
+          status: "queued",
+          error: undefined,
+          result: undefined,
+        }))
+      );
+
+      for (const { id } of itemsRef.current) {
+        if (runRef.current !== run) return;
+        // Items removed during the run are skipped
+        const item = itemsRef.current.find((item) => item.id === id);
+        if (!item) continue;
+
+        updateItem(id, { status: "processing" });
+        try {
+          const bitmap = await createImageBitmap(item.file, {
+            imageOrientation: "from-image",
+          });
+          // Painted masks belong to the image open in the editor, batch items
+          // are rendered without one
+          const pixels = getFramePixels(
+            bitmap,
+            { width: bitmap.width, height: bitmap.height },
+            settings.crop,
+            item.config ?? settings.config,
+            settings.windowSize,
+            settings.pixelRatio
+          );
+          bitmap.close();
+          if (!pixels) throw new Error("Couldn't read the image.");
+
+          const rendered = await renderImageData(
+            pixels.imageData,
+            pixels.config
+          );
+          const blob = await encodeImage(rendered, settings.output);
+          if (runRef.current !== run) return;
+          updateItem(id, {
+            status: "done",
+            result: {
+              blob,
+              filename: formatFilename(DEFAULT_FILENAME_TEMPLATE, {
+                name: item.name,
+                width: rendered.width,
+                height: rendered.height,
+                format: settings.output.format,
+              }),
+            },
+          });
+        } catch (err) {
+          if (runRef.current !== run) return;
+          updateItem(id, { status: "error", error: getErrorMessage(err) });
+        }
+      }
+      setIsRunning(false);
+    },
+    [renderImageData, encodeImage, updateItem]
+  );
+
+  // Put every finished result into one archive
+  const downloadZip = useCallback(async () => {
+    const taken = new Set<string>();
+    const entries = await Promise.all(
+      itemsRef.current
+        .filter((item) => item.result)
+        .map(async (item) => ({
+          name: getUniqueName(item.result!.filename, taken),
+          data: new Uint8Array(await item.result!.blob.arrayBuffer()),
+        }))
+    );
+    if (entries.length === 0) return;
+
+    const url = URL.createObjectURL(createZip(entries));
+    downloadUrl(url, "blurred-images.zip");
+    // Give the browser a moment to start the download before releasing it
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  }, []);
+
+  // Thumbnails of a queue still around when the app goes away
+  useEffect(
+    () => () => {
+      runRef.current++;
+      itemsRef.current.forEach((item) =>
+        URL.revokeObjectURL(item.thumbnailUrl)
+      );
+    },
+    []
+  );
+
+  return {
+    items,
+    isRunning,
+    addFiles,
+    removeItem,
+    clear,
+    setItemConfig,
+    processAll,
+    downloadZip,
+  };
+}
@@ -0,0 +1,141 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { BlurConfig } from "../lib/blurConfig";
+import { downloadUrl, ExportOptions } from "../lib/export";
+import {
+  AnimationFormat,
+  BlurAnimation,
+  DEFAULT_ANIMATION,
+  getAnimatedConfig,
+  getFrameCount,
+  snapToFrame,
+} from "../lib/keyframes";
+import { ClipEncoder } from "../lib/media";
+import { createWebmEncoder } from "../lib/webm";
+import { createZip, ZipEntry } from "../lib/zip";
+import { ClipProgress } from "./useMediaClip";
+
+type EncodeImage = (
+  imageData: ImageData,
+  options: ExportOptions
+) => Promise<Blob>;
+
+// Keyframed settings with playback and export. Playback steps through the
+// same frames an export renders, so the preview shows exactly what the file
+// will contain.
+export function useBlurAnimation(encodeImage: EncodeImage) {
+  const [animation, setAnimation] = useState<BlurAnimation>(DEFAULT_ANIMATION);
+  // Seconds, always on a frame
+  const [time, setTime] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [progress, setProgress] = useState<ClipProgress | null>(null);
+  const timeRef = useRef(time);
+  timeRef.current = time;
+  // Bumped to cancel an export
+  const exportRef = useRef(0);
+
+  const seek = useCallback(
+    (nextTime: number) => setTime(snapToFrame(animation, nextTime)),
+    [animation]
+  );
+
+  // A shorter animation or another frame rate moves the playhead along
+  useEffect(() => {
+    setTime((prev) => snapToFrame(animation, prev));
+  }, [animation]);
+
+  // Loop from the playhead while playing
+  useEffect(() => {
+    if (!isPlaying) return;
+
+    const start = performance.now() - timeRef.current * 1000;
+    let request = 0;
+    const tick = (now: number) => {
+      const elapsed = ((now - start) / 1000) % animation.duration;
+      setTime(snapToFrame(animation, elapsed));
+      request = requestAnimationFrame(tick);
+    };
+    request = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(request);
+  }, [isPlaying, animation]);
+
+  // Render every frame with the settings at its time and download the result
+  const exportAnimation = useCallback(
+    async (
+      format: AnimationFormat,
+      name: string,
+      config: BlurConfig,
+      renderFrame: (config: BlurConfig) => Promise<ImageData | null>
+    ) => {
+      const run = ++exportRef.current;
+      const total = getFrameCount(animation);
+      // Timestamps in microseconds, like WebCodecs
+      const frameDuration = 1_000_000 / animation.frameRate;
+      setIsPlaying(false);
+      setProgress({ done: 0, total });
+      let encoder: ClipEncoder | null = null;
+      const frames: ZipEntry[] = [];
+      try {
+        for (let i = 0; i < total; i++) {
+          if (exportRef.current !== run) return;
+          const pixels = await renderFrame(
+            getAnimatedConfig(config, animation, i / animation.frameRate)
+          );
+          if (!pixels) throw new Error("Rendering the frame failed.");
+
+          if (format === "webm") {
+            // The output size is known once the first frame is rendered
+            encoder ??= await createWebmEncoder(pixels.width, pixels.height);
+            await encoder.addFrame(pixels, i * frameDuration, frameDuration);
+          } else {
+            const blob = await encodeImage(pixels, {
+              format: "png",
+              quality: 1,
+            });
+            frames.push({
+              name: `${name}-${String(i + 1).padStart(4, "0")}.png`,
+              data: new Uint8Array(await blob.arrayBuffer()),
+            });
+          }
+          setProgress({ done: i + 1, total });
+        }
+        if (exportRef.current !== run) return;
+
+        const [blob, filename] = encoder
+          ? [await encoder.finish(), `${name}-blur.webm`]
+          : [createZip(frames), `${name}-blur-frames.zip`];
+        const url = URL.createObjectURL(blob);
+        downloadUrl(url, filename);
+        // Give the browser a moment to start the download before releasing it
+        setTimeout(() => URL.revokeObjectURL(url), 1000);
+      } finally {
+        encoder?.close();
+        if (exportRef.current === run) setProgress(null);
+      }
+    },
+    [animation, encodeImage]
+  );
+
+  const cancelExport = useCallback(() => {
+    exportRef.current++;
+    setProgress(null);
+  }, []);
+
+  useEffect(
+    () => () => {
+      exportRef.current++;
+    },
+    []
+  );
+
+  return {
+    animation,
+    setAnimation,
+    time,
+    seek,
+    isPlaying,
+    setIsPlaying,
+    progress,
+    exportAnimation,
+    cancelExport,
+  };
+}
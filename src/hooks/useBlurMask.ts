@@ -0,0 +1,212 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { CoverFit } from "../lib/export";
+
+// Brush used to paint the custom blur mask. Size is in CSS pixels on screen,
+// hardness goes from 0 (soft falloff) to 1 (hard edge).
+export interface BrushSettings {
+  size: number;
+  hardness: number;
+  erase: boolean;
+}
+
+export interface MaskPoint {
+  x: number;
+  y: number;
+}
+
+// Long edge of the mask canvas. Blur strength varies smoothly, so the mask
+// doesn't need the full resolution of the source image.
+const MAX_MASK_SIZE = 1024;
+
+// Paint a single soft round dab. The mask stores blur strength in alpha.
+function stampBrush(
+  ctx: CanvasRenderingContext2D,
+  point: MaskPoint,
+  radius: number,
+  hardness: number
+) {
+  // A radial gradient with equal radii paints nothing, so keep a sliver
+  const innerRadius = radius * Math.min(hardness, 0.99);
+  const gradient = ctx.createRadialGradient(
+    point.x,
+    point.y,
+    innerRadius,
+    point.x,
+    point.y,
+    radius
+  );
+  gradient.addColorStop(0, "rgba(255, 255, 255, 1)");
+  gradient.addColorStop(1, "rgba(255, 255, 255, 0)");
+
+  ctx.fillStyle = gradient;
+  ctx.beginPath();
+  ctx.arc(point.x, point.y, radius, 0, Math.PI * 2);
+  ctx.fill();
+}
+
+// Decode an image file into an image element
+function loadImageFile(file: File) {
+  return new Promise<HTMLImageElement>((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const img = new Image();
+    img.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(img);
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error(`Could not load mask image "${file.name}".`));
+    };
+    img.src = url;
+  });
+}
+
+function getMaskContext(canvas: HTMLCanvasElement | null) {
+  return canvas?.getContext("2d", { willReadFrequently: true }) ?? null;
+}
+
+// Holds the custom blur mask for an image of the given size. The mask lives
+// in source image space so it stays attached to the photo, not the window.
+export function useBlurMask(imageWidth: number, imageHeight: number) {
+  const maskCanvasRef = useRef<HTMLCanvasElement | null>(null);
+  // Bumped whenever the mask changes in a way that needs a re-render
+  const [version, setVersion] = useState(0);
+
+  // (Re)create the mask canvas whenever the image size changes
+  useEffect(() => {
+    if (!imageWidth || !imageHeight) {
+      maskCanvasRef.current = null;
+      return;
+    }
+
+    const scale = Math.min(
+      1,
+      MAX_MASK_SIZE / Math.max(imageWidth, imageHeight)
+    );
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.max(1, Math.round(imageWidth * scale));
+    canvas.height = Math.max(1, Math.round(imageHeight * scale));
+    maskCanvasRef.current = canvas;
+    setVersion((v) => v + 1);
+  }, [imageWidth, imageHeight]);
+
+  // Paint a stroke segment. Points are in mask pixels, the brush size in
+  // mask pixels too. Doesn't bump the version, call commit() when done.
+  const paintStroke = useCallback(
+    (
+      from: MaskPoint,
+      to: MaskPoint,
+      brushSize: number,
+      brush: BrushSettings
+    ) => {
+      const ctx = getMaskContext(maskCanvasRef.current);
+      if (!ctx) return;
+
+      const radius = Math.max(brushSize / 2, 0.5);
+      // Space dabs closely enough that the stroke looks continuous
+      const spacing = Math.max(radius * 0.25, 0.5);
+      const distance = Math.hypot(to.x - from.x, to.y - from.y);
+      const steps = Math.max(1, Math.ceil(distance / spacing));
+
+      ctx.save();
+      ctx.globalCompositeOperation = brush.erase
+        ? "destination-out"
+        : "source-over";
+      for (let i = 0; i <= steps; i++) {
+        const t = i / steps;
+        stampBrush(
+          ctx,
+          { x: from.x + (to.x - from.x) * t, y: from.y + (to.y - from.y) * t },
+          radius,
+          brush.hardness
+        );
+      }
+      ctx.restore();
+    },
+    []
+  );
+
+  const commit = useCallback(() => setVersion((v) => v + 1), []);
+
+  const clear = useCallback(() => {
+    const canvas = maskCanvasRef.current;
+    const ctx = getMaskContext(canvas);
+    if (!canvas || !ctx) return;
+
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    setVersion((v) => v + 1);
+  }, []);
+
+  // Use a grayscale image as the mask: white = full blur, black = sharp
+  const importMask = useCallback(async (file: File) => {
+    const canvas = maskCanvasRef.current;
+    const ctx = getMaskContext(canvas);
+    if (!canvas || !ctx) return;
+
+    const img = await loadImageFile(file);
+    ctx.save();
+    ctx.globalCompositeOperation = "copy";
+    // Transparent areas of the mask count as black
+    ctx.fillStyle = "black";
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.globalCompositeOperation = "source-over";
+    ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+    ctx.restore();
+
+    // Move luminance into alpha
+    const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    const { data } = imageData;
+    for (let i = 0; i < data.length; i += 4) {
+      const luminance =
+        0.2126 * data[i] + 0.7152 * data[i + 1] + 0.0722 * data[i + 2];
+      data[i] = data[i + 1] = data[i + 2] = 255;
+      data[i + 3] = luminance;
+    }
+    ctx.putImageData(imageData, 0, 0);
+    setVersion((v) => v + 1);
+  }, []);
+
+  // The mask in source image space, for full-resolution exports
+  const getImageMask = useCallback(() => {
+    const canvas = maskCanvasRef.current;
+    const ctx = getMaskContext(canvas);
+    if (!canvas || !ctx) return null;
+
+    return ctx.getImageData(0, 0, canvas.width, canvas.height);
+  }, []);
+
+  // The mask as it lines up with a cover-fitted frame of the given size
+  const getFrameMask = useCallback(
+    (fit: CoverFit, frameWidth: number, frameHeight: number) => {
+      const mask = maskCanvasRef.current;
+      if (!mask) return null;
+
+      const canvas = document.createElement("canvas");
+      canvas.width = Math.max(1, Math.round(frameWidth));
+      canvas.height = Math.max(1, Math.round(frameHeight));
+      const ctx = canvas.getContext("2d", { willReadFrequently: true });
+      if (!ctx) return null;
+
+      ctx.drawImage(
+        mask,
+        fit.offsetX,
+        fit.offsetY,
+        fit.drawWidth,
+        fit.drawHeight
+      );
+      return ctx.getImageData(0, 0, canvas.width, canvas.height);
+    },
+    []
+  );
+
+  return {
+    maskCanvasRef,
+    version,
+    paintStroke,
+    commit,
+    clear,
+    importMask,
+    getImageMask,
+    getFrameMask,
+  };
+}
@@ -0,0 +1,192 @@
+import { SetStateAction, useCallback, useState } from "react";
+import { BlurConfig } from "../lib/blurConfig";
+import { CropSettings } from "../lib/crop";
+
+// Image open in the editor. The id is new for every load, even of the same
+// file, and keys the worker's source upload cache.
+export interface EditorImage {
+  id: number;
+  src: string;
+  name: string;
+  // Set for the built-in sample images
+  sampleId?: string;
+}
+
+// Everything undo and redo step through
+export interface EditorState {
+  config: BlurConfig;
+  image: EditorImage | null;
+  crop: CropSettings;
+}
+
+interface History {
+  past: EditorState[];
+  present: EditorState;
+  future: EditorState[];
+  // What the last change touched and when, for coalescing slider drags
+  lastChange: { key: string; time: number } | null;
+}
+
+// Undo steps kept at most
+const MAX_HISTORY = 100;
+// Distinct images the history may keep alive. Uploads are data URLs of the
+// whole file, so older steps are dropped instead of holding on to them.
+const MAX_HISTORY_IMAGES = 4;
+// Changes to the same settings closer together than this are one step, so
+// dragging a slider doesn't leave a step for every pixel
+const COALESCE_MS = 500;
+
+let nextImageId = 1;
+
+export function createEditorImage(
+  src: string,
+  name: string,
+  sampleId?: string
+): EditorImage {
+  return { id: nextImageId++, src, name, sampleId };
+}
+
+// Drop the oldest steps beyond the step limit or the image limit
+function trimPast(past: EditorState[], present: EditorState) {
+  const trimmed = past.slice(-MAX_HISTORY);
+  const images = new Set<string>();
+  if (present.image) images.add(present.image.src);
+  for (let i = trimmed.length - 1; i >= 0; i--) {
+    const image = trimmed[i].image;
+    if (image) images.add(image.src);
+    if (images.size > MAX_HISTORY_IMAGES) return trimmed.slice(i + 1);
+  }
+  return trimmed;
+}
+
+function push(
+  history: History,
+  present: EditorState,
+  lastChange: History["lastChange"]
+): History {
+  return {
+    past: trimPast([...history.past, history.present], present),
+    present,
+    future: [],
+    lastChange,
+  };
+}
+
+// Names of the settings that differ, so only repeated changes to the same
+// control are coalesced
+function getChangedKeys<T extends object>(prev: T, next: T) {
+  return (Object.keys(next) as (keyof T)[])
+    .filter((key) => prev[key] !== next[key])
+    .join(",");
+}
+
+// Make present a new step, or fold it into the last one if that changed the
+// same settings moments ago
+function pushCoalesced(
+  history: History,
+  present: EditorState,
+  key: string,
+  time: number
+): History {
+  const last = history.lastChange;
+  if (last?.key === key && time - last.time < COALESCE_MS) {
+    return { ...history, present, lastChange: { key, time } };
+  }
+  return push(history, present, { key, time });
+}
+
+// Undo/redo history of the blur settings and the open image
+export function useEditorHistory(initialState: () => EditorState) {
+  const [history, setHistory] = useState<History>(() => ({
+    past: [],
+    present: initialState(),
+    future: [],
+    lastChange: null,
+  }));
+
+  // Drop-in for a BlurConfig state setter, quick successive changes of the
+  // same settings become a single step
+  const setBlurConfig = useCallback((action: SetStateAction<BlurConfig>) => {
+    const time = performance.now();
+    setHistory((prev) => {
+      const config =
+        typeof action === "function" ? action(prev.present.config) : action;
+      if (config === prev.present.config) return prev;
+
+      return pushCoalesced(
+        prev,
+        { ...prev.present, config },
+        getChangedKeys(prev.present.config, config),
+        time
+      );
+    });
+  }, []);
+
+  // Same for the crop, so dragging the image under the frame is one step
+  const setCrop = useCallback((action: SetStateAction<CropSettings>) => {
+    const time = performance.now();
+    setHistory((prev) => {
+      const crop =
+        typeof action === "function" ? action(prev.present.crop) : action;
+      if (crop === prev.present.crop) return prev;
+
+      // Drag steps move along one or both axes, still the same gesture
+      const isMove =
+        crop.positionX !== prev.present.crop.positionX ||
+        crop.positionY !== prev.present.crop.positionY;
+      return pushCoalesced(
+        prev,
+        { ...prev.present, crop },
+        isMove
+          ? "crop:position"
+          : `crop:${getChangedKeys(prev.present.crop, crop)}`,
+        time
+      );
+    });
+  }, []);
+
+  // Any other change, always its own step
+  const commit = useCallback((change: (prev: EditorState) => EditorState) => {
+    setHistory((prev) => {
+      const present = change(prev.present);
+      return present === prev.present ? prev : push(prev, present, null);
+    });
+  }, []);
+
+  const undo = useCallback(() => {
+    setHistory((prev) =>
+      prev.past.length === 0
+        ? prev
+        : {
+            past: prev.past.slice(0, -1),
+            present: prev.past[prev.past.length - 1],
+            future: [prev.present, ...prev.future],
+            lastChange: null,
+          }
+    );
+  }, []);
+
+  const redo = useCallback(() => {
+    setHistory((prev) =>
+      prev.future.length === 0
+        ? prev
+        : {
+            past: [...prev.past, prev.present],
+            present: prev.future[0],
+            future: prev.future.slice(1),
+            lastChange: null,
+          }
+    );
+  }, []);
+
+  return {
+    state: history.present,
+    setBlurConfig,
+    setCrop,
+    commit,
+    undo,
+    redo,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+  };
+}
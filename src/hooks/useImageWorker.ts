@@ -1,25 +1,114 @@
-import { useEffect, useRef, useState } from "react";
-
-// Configuration type for blur filter
-export interface BlurConfig {
-  enabled: boolean;
-  startPoint: number;
-  endPoint: number;
-  maxKernelSize: number;
-  easing: string;
-  blurType: 'none' | 'linear' | 'gaussian';
-  sigma?: number;
+import { useCallback, useEffect, useRef, useState } from "react";
+import { BlurConfig, BlurMask, isBlurActive } from "../lib/blurConfig";
+import { ImageWorkerError, ImageWorkerErrorCode } from "../lib/errors";
+import { CoverFit, EXPORT_FORMATS, ExportOptions } from "../lib/export";
+import { CanvasRegion } from "../lib/viewport";
+
+// Masks only matter to the custom mask mode, and the worker expects plain data
+function toWorkerMask(mask?: ImageData | null): BlurMask | undefined {
+  if (!mask) return undefined;
+  return { data: mask.data, width: mask.width, height: mask.height };
+}
+
+// What the on-screen canvas shows, see processImage
+export interface DisplayView {
+  // Identity of the image, it's only sent to the worker when this changes
+  sourceId: string;
+  source: CanvasImageSource;
+  // Size of the canvas in device pixels
+  width: number;
+  height: number;
+  // Where the image is drawn and the part of the canvas that gets blurred,
+  // both in device pixels
+  fit: CoverFit;
+  region: CanvasRegion;
+}
+
+// Custom mask lined up with the blurred region, see processImage
+export interface DisplayMask {
+  // Identity of the mask and how it lines up, it's only sent to the worker
+  // when this changes
+  key: string;
+  // Only called when the mask has to be sent
+  getMask: () => ImageData | null;
+}
+
+// Interactive render of the on-screen canvas, see processImage
+interface RenderJob {
+  view: DisplayView;
+  config: BlurConfig;
+  mask?: DisplayMask | null;
+  sourceKey?: string;
+  // Set when a newer render or cancelRender() made this one stale
+  cancelled: boolean;
+  resolve: (painted: boolean) => void;
+  reject: (err: ImageWorkerError) => void;
+}
+
+// Everything the worker can answer a request with
+interface WorkerReply {
+  type: string;
+  id?: number;
+  processedData?: Uint8ClampedArray;
+  width?: number;
+  height?: number;
+  duration?: number;
+  blob?: Blob;
+  bitmap?: ImageBitmap;
+  renderer?: "gpu" | "cpu";
+  code?: ImageWorkerErrorCode;
+  message?: string;
 }
 
-export function useImageWorker(blurConfig: BlurConfig) {
+export function useImageWorker() {
   const workerRef = useRef<Worker | null>(null);
   const [availableEasings, setAvailableEasings] = useState<string[]>([]);
+  const [isProcessing, setIsProcessing] = useState(false);
+  // How long the worker took for the last interactive render, in ms
+  const [lastRenderDuration, setLastRenderDuration] = useState<number | null>(
+    null
+  );
+  // Set once the worker had to fall back to the CPU blur
+  const [isCpuFallback, setIsCpuFallback] = useState(false);
+  const requestIdRef = useRef(0);
+  // Reply handlers of requests the worker hasn't answered yet, by id
+  const requestsRef = useRef(
+    new Map<
+      number,
+      {
+        resolve: (reply: WorkerReply) => void;
+        reject: (err: ImageWorkerError) => void;
+      }
+    >()
+  );
+  // At most one render is in the worker, plus the newest one waiting for it
+  const inFlightRef = useRef<RenderJob | null>(null);
+  const queuedRef = useRef<RenderJob | null>(null);
+  // On-screen canvas, drawn by the worker once it was handed over. A canvas
+  // can only be handed over once, so a new worker (e.g. from strict mode
+  // mounting twice) gets a fresh canvas element, keyed with canvasKey.
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [canvasKey, setCanvasKey] = useState(0);
+  const attachedCanvasesRef = useRef(new WeakSet<HTMLCanvasElement>());
+  const isAttachedRef = useRef(false);
+  // Image the worker holds on to, renders of it don't send it again
+  const sentSourceIdRef = useRef<string | null>(null);
+  // Same for the custom mask
+  const sentMaskKeyRef = useRef<string | null>(null);
 
   // Initialize worker
   useEffect(() => {
+    const requests = requestsRef.current;
     workerRef.current = new Worker(new URL("../worker.ts", import.meta.url), {
       type: "module",
     });
+    isAttachedRef.current = false;
+    sentSourceIdRef.current = null;
+    sentMaskKeyRef.current = null;
+    const canvas = canvasRef.current;
+    if (canvas && attachedCanvasesRef.current.has(canvas)) {
+      setCanvasKey((prev) => prev + 1);
+    }
 
     // Get available easings
     workerRef.current.postMessage({ type: "getEasings" });
@@ -27,60 +116,308 @@ export function useImageWorker(blurConfig: BlurConfig) {
     const handleMessage = (e: MessageEvent) => {
       if (e.data.type === "easings") {
         setAvailableEasings(e.data.easings);
+        return;
       }
+
+      const request = requests.get(e.data.id);
+      if (!request) return;
+      requests.delete(e.data.id);
+      if (e.data.type === "error") {
+        request.reject(new ImageWorkerError(e.data.code, e.data.message));
+      } else {
+        request.resolve(e.data);
+      }
+    };
+
+    // Nothing pending will ever be answered by a failed or stopped worker
+    const rejectPending = (message: string) => {
+      const err = new ImageWorkerError("worker-failed", message);
+      requests.forEach((request) => request.reject(err));
+      requests.clear();
     };
+    const handleError = (e: ErrorEvent) =>
+      rejectPending(e.message || "Image worker failed.");
 
     workerRef.current.addEventListener("message", handleMessage);
+    workerRef.current.addEventListener("error", handleError);
 
     return () => {
       workerRef.current?.removeEventListener("message", handleMessage);
+      workerRef.current?.removeEventListener("error", handleError);
       workerRef.current?.terminate();
+      rejectPending("Image worker was stopped.");
     };
   }, []);
 
-  const processImage = (
-    ctx: CanvasRenderingContext2D,
-    canvas: HTMLCanvasElement
-  ) => {
-    if (blurConfig.enabled && blurConfig.blurType !== "none" && workerRef.current) {
-      const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-
-      return new Promise<void>((resolve) => {
-        // Set up worker message handler
-        const messageHandler = (e: MessageEvent) => {
-          if (e.data.type === "processed") {
-            const { processedData } = e.data;
-            const newImageData = new ImageData(
-              processedData,
-              canvas.width,
-              canvas.height
-            );
-            ctx.putImageData(newImageData, 0, 0);
-            // Remove the message handler after processing
-            workerRef.current?.removeEventListener("message", messageHandler);
-            resolve();
-          }
-        };
+  // Hand the on-screen canvas over to the worker
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (
+      !canvas ||
+      !workerRef.current ||
+      attachedCanvasesRef.current.has(canvas)
+    ) {
+      return;
+    }
+    const offscreen = canvas.transferControlToOffscreen();
+    attachedCanvasesRef.current.add(canvas);
+    workerRef.current.postMessage({ type: "attach", canvas: offscreen }, [
+      offscreen,
+    ]);
+    isAttachedRef.current = true;
+  }, [canvasKey]);
+
+  // Send a message tagged with a fresh id and wait for the matching reply
+  const request = useCallback(
+    (message: Record<string, unknown>, transfer: Transferable[] = []) => {
+      const id = ++requestIdRef.current;
+
+      return new Promise<WorkerReply>((resolve, reject) => {
+        if (!workerRef.current) {
+          reject(
+            new ImageWorkerError(
+              "worker-failed",
+              "Image worker is not running."
+            )
+          );
+          return;
+        }
+        requestsRef.current.set(id, { resolve, reject });
+        workerRef.current.postMessage({ ...message, id }, transfer);
+      });
+    },
+    []
+  );
+
+  const startRender = useCallback(
+    (job: RenderJob) => {
+      inFlightRef.current = job;
+      setIsProcessing(true);
 
-        workerRef.current?.addEventListener("message", messageHandler);
+      // A new image is decoded into a bitmap and moved to the worker, which
+      // keeps it, and so is a changed mask. After that renders only send
+      // settings.
+      const { view } = job;
+      const sendRender = async () => {
+        const source =
+          sentSourceIdRef.current === view.sourceId
+            ? undefined
+            : await createImageBitmap(view.source);
+        if (job.cancelled) {
+          source?.close();
+          return null;
+        }
+        const maskKey = job.mask?.key;
+        const mask =
+          job.mask && sentMaskKeyRef.current !== maskKey
+            ? toWorkerMask(job.mask.getMask())
+            : undefined;
+        if (source) sentSourceIdRef.current = view.sourceId;
+        if (maskKey !== undefined) sentMaskKeyRef.current = maskKey;
+        const transfer: Transferable[] = [];
+        if (source) transfer.push(source);
+        if (mask) transfer.push(mask.data.buffer);
+        return request(
+          {
+            type: "process",
+            source,
+            sourceId: view.sourceId,
+            width: view.width,
+            height: view.height,
+            fit: view.fit,
+            region: view.region,
+            config: job.config,
+            mask,
+            maskKey,
+            sourceKey: job.sourceKey,
+          },
+          transfer
+        );
+      };
 
-        // Send data to worker
-        workerRef.current?.postMessage({
-          type: "process",
-          imageData: imageData.data,
-          width: canvas.width,
-          height: canvas.height,
-          config: blurConfig,
+      sendRender()
+        .then((reply) => {
+          if (!reply || job.cancelled) {
+            job.resolve(false);
+            return;
+          }
+          setLastRenderDuration(reply.duration ?? null);
+          setIsCpuFallback(reply.renderer === "cpu");
+          job.resolve(true);
+        })
+        .catch((err: ImageWorkerError) => {
+          // The worker may not have kept the image or mask, send them with
+          // the next one
+          sentSourceIdRef.current = null;
+          sentMaskKeyRef.current = null;
+          // Nobody is waiting for the outcome of a stale render anymore
+          if (job.cancelled) {
+            job.resolve(false);
+          } else {
+            job.reject(err);
+          }
+        })
+        .finally(() => {
+          inFlightRef.current = null;
+          // Only the newest queued render is left, everything in between
+          // was dropped without ever reaching the worker
+          const next = queuedRef.current;
+          queuedRef.current = null;
+          if (next) {
+            startRender(next);
+          } else {
+            setIsProcessing(false);
+          }
         });
+    },
+    [request]
+  );
+
+  // Have the worker draw the image onto the on-screen canvas and blur the
+  // region of it the config was mapped to. No pixels cross threads, except
+  // for the image the first time it's shown and the mask whenever its key
+  // changes, both moved instead of copied.
+  // Renders are latest-wins: while one is running, newer calls replace each
+  // other and only the last one gets rendered. Resolves to false if the
+  // render was dropped or cancelled before it was sent, or the canvas isn't
+  // handed over yet, rejects with an ImageWorkerError if the worker failed
+  // to render it.
+  // sourceKey identifies what gets blurred. As long as it stays the same,
+  // the worker reuses the pixels it already uploaded to the GPU.
+  const processImage = useCallback(
+    (
+      view: DisplayView,
+      config: BlurConfig,
+      mask?: DisplayMask | null,
+      sourceKey?: string
+    ) => {
+      if (!workerRef.current || !isAttachedRef.current) {
+        return Promise.resolve(false);
+      }
+
+      return new Promise<boolean>((resolve, reject) => {
+        const job: RenderJob = {
+          view,
+          config,
+          mask,
+          sourceKey,
+          cancelled: false,
+          resolve,
+          reject,
+        };
+
+        if (inFlightRef.current) {
+          queuedRef.current?.resolve(false);
+          queuedRef.current = job;
+        } else {
+          startRender(job);
+        }
       });
-    } else {
-      // If blur is not enabled or blur type is none, resolve immediately
-      return Promise.resolve();
+    },
+    [startRender]
+  );
+
+  // Drop the queued render and ignore the result of the running one, e.g.
+  // when the image was removed in the meantime
+  const cancelRender = useCallback(() => {
+    queuedRef.current?.resolve(false);
+    queuedRef.current = null;
+    if (inFlightRef.current) {
+      inFlightRef.current.cancelled = true;
     }
-  };
+  }, []);
+
+  // Show the placeholder instead of an image, the worker lets go of it and
+  // of the mask
+  const clearCanvas = useCallback(
+    (width: number, height: number) => {
+      cancelRender();
+      sentSourceIdRef.current = null;
+      sentMaskKeyRef.current = null;
+      workerRef.current?.postMessage({ type: "clear", width, height });
+    },
+    [cancelRender]
+  );
+
+  // Pixels of the on-screen canvas, exactly as shown
+  const captureCanvas = useCallback(async () => {
+    const reply = await request({ type: "capture" });
+    return new ImageData(reply.processedData!, reply.width!, reply.height!);
+  }, [request]);
+
+  // Blur an arbitrary image buffer (e.g. the full-resolution source) with an
+  // explicit config, independent of what is currently shown on screen
+  const renderImageData = useCallback(
+    async (
+      imageData: ImageData,
+      config: BlurConfig,
+      mask?: ImageData | null
+    ) => {
+      if (!isBlurActive(config) || !workerRef.current) {
+        return imageData;
+      }
+
+      const reply = await request({
+        type: "export",
+        imageData: imageData.data,
+        width: imageData.width,
+        height: imageData.height,
+        config,
+        mask: toWorkerMask(mask),
+      });
+      return new ImageData(
+        reply.processedData!,
+        imageData.width,
+        imageData.height
+      );
+    },
+    [request]
+  );
+
+  // Blur a frame of a live source with a config mapped to its size. The frame
+  // is transferred to the worker and must not be used afterwards. Resolves
+  // to the blurred frame and how long the worker took, in ms.
+  const renderLiveFrame = useCallback(
+    async (frame: ImageBitmap | VideoFrame, config: BlurConfig) => {
+      const reply = await request({ type: "live", frame, config }, [frame]);
+      setIsCpuFallback(reply.renderer === "cpu");
+      return { bitmap: reply.bitmap!, duration: reply.duration ?? 0 };
+    },
+    [request]
+  );
+
+  // Encode pixels to a file in the worker. Requests are tagged with an id so
+  // overlapping encodes (e.g. while dragging the quality slider) don't mix up.
+  const encodeImage = useCallback(
+    async (imageData: ImageData, options: ExportOptions) => {
+      const { mimeType, lossy } = EXPORT_FORMATS[options.format];
+
+      const reply = await request({
+        type: "encode",
+        imageData: imageData.data,
+        width: imageData.width,
+        height: imageData.height,
+        mimeType,
+        quality: lossy ? options.quality : undefined,
+      });
+      return reply.blob!;
+    },
+    [request]
+  );
 
   return {
     availableEasings,
+    canvasRef,
+    canvasKey,
     processImage,
+    cancelRender,
+    clearCanvas,
+    captureCanvas,
+    renderImageData,
+    renderLiveFrame,
+    encodeImage,
+    isProcessing,
+    lastRenderDuration,
+    isCpuFallback,
   };
-} 
\ No newline at end of file
+}
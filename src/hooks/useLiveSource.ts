@@ -0,0 +1,319 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { BlurConfig, isBlurActive } from "../lib/blurConfig";
+import { getErrorMessage } from "../lib/errors";
+import {
+  downloadUrl,
+  ExportOptions,
+  formatFilename,
+  getCoverFit,
+  mapBlurConfigToImage,
+} from "../lib/export";
+import {
+  getNextLiveScale,
+  LiveSourceKind,
+  LiveStream,
+  openLiveStream,
+} from "../lib/live";
+
+type RenderLiveFrame = (
+  frame: ImageBitmap | VideoFrame,
+  config: BlurConfig
+) => Promise<{ bitmap: ImageBitmap; duration: number }>;
+
+type RenderImageData = (
+  imageData: ImageData,
+  config: BlurConfig
+) => Promise<ImageData>;
+
+type EncodeImage = (
+  imageData: ImageData,
+  options: ExportOptions
+) => Promise<Blob>;
+
+export interface LiveStats {
+  // Blurred frames painted per second
+  fps: number;
+  // Fraction of the displayed resolution frames are rendered at
+  scale: number;
+  width: number;
+  height: number;
+}
+
+// How often the readout updates, in ms
+const STATS_INTERVAL = 500;
+// Weight of the newest sample in the smoothed frame and render times
+const SMOOTHING = 0.1;
+
+// Frame of the video as something the worker can take over. At full
+// resolution a VideoFrame wraps the decoded frame without copying it, smaller
+// sizes are scaled down by the browser on the way into an ImageBitmap.
+async function captureFrame(
+  video: HTMLVideoElement,
+  width: number,
+  height: number
+): Promise<ImageBitmap | VideoFrame> {
+  if (
+    typeof VideoFrame !== "undefined" &&
+    width === video.videoWidth &&
+    height === video.videoHeight
+  ) {
+    return new VideoFrame(video);
+  }
+  return createImageBitmap(video, {
+    resizeWidth: width,
+    resizeHeight: height,
+    resizeQuality: "low",
+  });
+}
+
+// Camera, screen or test pattern blurred with the editor's settings as it
+// plays. Frames are rendered at display rate, one at a time, and the
+// resolution drops whenever the worker can't keep up with the display.
+export function useLiveSource(
+  config: BlurConfig,
+  viewSize: { width: number; height: number },
+  pixelRatio: number,
+  renderLiveFrame: RenderLiveFrame,
+  renderImageData: RenderImageData,
+  encodeImage: EncodeImage
+) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [source, setSource] = useState<LiveSourceKind | null>(null);
+  const [stats, setStats] = useState<LiveStats | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isSnapshotting, setIsSnapshotting] = useState(false);
+  const liveRef = useRef<{ stream: LiveStream; video: HTMLVideoElement }>(null);
+  // The loop reads the newest settings without restarting
+  const configRef = useRef(config);
+  configRef.current = config;
+  const viewRef = useRef({ viewSize, pixelRatio });
+  viewRef.current = { viewSize, pixelRatio };
+
+  const stop = useCallback(() => {
+    const live = liveRef.current;
+    liveRef.current = null;
+    if (live) {
+      live.stream.stop();
+      live.video.srcObject = null;
+    }
+    setSource(null);
+    setStats(null);
+  }, []);
+
+  const start = useCallback(
+    async (kind: LiveSourceKind) => {
+      stop();
+      setError(null);
+      let stream: LiveStream | null = null;
+      try {
+        stream = await openLiveStream(kind);
+        const video = document.createElement("video");
+        video.muted = true;
+        video.playsInline = true;
+        video.srcObject = stream.stream;
+        await video.play();
+
+        // Ending a screen share from the browser's own controls ends the track
+        stream.stream.getVideoTracks()[0]?.addEventListener("ended", stop);
+        liveRef.current = { stream, video };
+        setSource(kind);
+      } catch (err) {
+        stream?.stop();
+        // Dismissing the permission prompt is not worth an error banner
+        if (!(err instanceof DOMException && err.name === "NotAllowedError")) {
+          setError(getErrorMessage(err));
+        }
+      }
+    },
+    [stop]
+  );
+
+  // Render loop, runs while a source is open
+  useEffect(() => {
+    const live = liveRef.current;
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!source || !live || !canvas || !ctx) return;
+
+    const { video } = live;
+    let isRunning = true;
+    let isBusy = false;
+    let request = 0;
+    let scale = 1;
+    // Smoothed display frame interval and render time, in ms
+    let frameInterval = 1000 / 60;
+    let renderTime = 0;
+    let lastTick = 0;
+    let painted = 0;
+    let statsStart = performance.now();
+    // Without requestVideoFrameCallback every tick counts as a new frame
+    const canWatchFrames = "requestVideoFrameCallback" in video;
+    let hasNewFrame = true;
+    let frameCallback = 0;
+    const watchFrames = () => {
+      hasNewFrame = true;
+      frameCallback = video.requestVideoFrameCallback(watchFrames);
+    };
+    if (canWatchFrames) watchFrames();
+
+    const renderFrame = async () => {
+      const { viewSize, pixelRatio } = viewRef.current;
+      const { videoWidth, videoHeight } = video;
+      const canvasWidth = Math.round(viewSize.width * pixelRatio);
+      const canvasHeight = Math.round(viewSize.height * pixelRatio);
+      if (canvas.width !== canvasWidth || canvas.height !== canvasHeight) {
+        canvas.width = canvasWidth;
+        canvas.height = canvasHeight;
+      }
+
+      const fit = getCoverFit(
+        videoWidth,
+        videoHeight,
+        viewSize.width,
+        viewSize.height
+      );
+      // No point in rendering more pixels than the screen shows
+      const fullScale = Math.min(1, (fit.drawWidth * pixelRatio) / videoWidth);
+      const width = Math.max(1, Math.round(videoWidth * fullScale * scale));
+      const height = Math.max(1, Math.round(videoHeight * fullScale * scale));
+      const frameConfig = mapBlurConfigToImage(
+        configRef.current,
+        fit,
+        viewSize,
+        pixelRatio,
+        width
+      );
+
+      const drawToCanvas = (frame: CanvasImageSource) => {
+        ctx.setTransform(pixelRatio, 0, 0, pixelRatio, 0, 0);
+        ctx.drawImage(
+          frame,
+          fit.offsetX,
+          fit.offsetY,
+          fit.drawWidth,
+          fit.drawHeight
+        );
+      };
+
+      if (!isBlurActive(frameConfig)) {
+        drawToCanvas(video);
+      } else {
+        const frame = await captureFrame(video, width, height);
+        const { bitmap, duration } = await renderLiveFrame(frame, frameConfig);
+        if (!isRunning) {
+          bitmap.close();
+          return;
+        }
+        drawToCanvas(bitmap);
+        bitmap.close();
+        renderTime += (duration - renderTime) * SMOOTHING;
+        scale = getNextLiveScale(scale, renderTime, frameInterval);
+      }
+      painted++;
+
+      const now = performance.now();
+      if (now - statsStart >= STATS_INTERVAL) {
+        setStats({
+          fps: (painted * 1000) / (now - statsStart),
+          scale: fullScale * scale,
+          width,
+          height,
+        });
+        painted = 0;
+        statsStart = now;
+      }
+    };
+
+    const tick = (now: number) => {
+      if (!isRunning) return;
+      if (lastTick) {
+        frameInterval += (now - lastTick - frameInterval) * SMOOTHING;
+      }
+      lastTick = now;
+
+      // One frame in the worker at a time, frames arriving meanwhile drop
+      if (!isBusy && hasNewFrame && video.videoWidth > 0) {
+        isBusy = true;
+        hasNewFrame = !canWatchFrames;
+        renderFrame()
+          .catch((err) => {
+            if (!isRunning) return;
+            setError(getErrorMessage(err));
+            stop();
+          })
+          .finally(() => {
+            isBusy = false;
+          });
+      }
+      request = requestAnimationFrame(tick);
+    };
+    request = requestAnimationFrame(tick);
+
+    return () => {
+      isRunning = false;
+      cancelAnimationFrame(request);
+      if (canWatchFrames) video.cancelVideoFrameCallback(frameCallback);
+    };
+  }, [source, renderLiveFrame, stop]);
+
+  // Render the current frame at the source's full resolution and download it
+  const snapshot = useCallback(async () => {
+    const live = liveRef.current;
+    if (!live || !source) return;
+
+    const { video } = live;
+    const { viewSize, pixelRatio } = viewRef.current;
+    const { videoWidth: width, videoHeight: height } = video;
+    setIsSnapshotting(true);
+    try {
+      const canvas = new OffscreenCanvas(width, height);
+      const ctx = canvas.getContext("2d");
+      if (!ctx) throw new Error("Couldn't create a canvas for the snapshot.");
+      ctx.drawImage(video, 0, 0, width, height);
+
+      const fit = getCoverFit(width, height, viewSize.width, viewSize.height);
+      const pixels = await renderImageData(
+        ctx.getImageData(0, 0, width, height),
+        mapBlurConfigToImage(
+          configRef.current,
+          fit,
+          viewSize,
+          pixelRatio,
+          width
+        )
+      );
+      const blob = await encodeImage(pixels, { format: "png", quality: 1 });
+      const url = URL.createObjectURL(blob);
+      downloadUrl(
+        url,
+        formatFilename("{name}-blur-{timestamp}", {
+          name: source === "test" ? "test-pattern" : source,
+          width,
+          height,
+          format: "png",
+        })
+      );
+      // Give the browser a moment to start the download before releasing it
+      setTimeout(() => URL.revokeObjectURL(url), 1000);
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      setIsSnapshotting(false);
+    }
+  }, [source, renderImageData, encodeImage]);
+
+  // Release the camera or screen when the app goes away
+  useEffect(() => stop, [stop]);
+
+  return {
+    canvasRef,
+    source,
+    stats,
+    error,
+    dismissError: () => setError(null),
+    isSnapshotting,
+    start,
+    stop,
+    snapshot,
+  };
+}
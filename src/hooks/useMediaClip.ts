@@ -0,0 +1,170 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { downloadUrl, ExportOptions } from "../lib/export";
+import {
+  CLIP_FORMATS,
+  ClipEncoder,
+  ClipFormat,
+  ClipFrame,
+  MediaClip,
+  openMediaClip,
+} from "../lib/media";
+import { createWebmEncoder } from "../lib/webm";
+import { createWebpEncoder } from "../lib/webp";
+
+export interface ClipProgress {
+  done: number;
+  total: number;
+}
+
+interface OpenClip {
+  clip: MediaClip;
+  // Editor image showing the clip, its first frame
+  imageId: number;
+}
+
+type EncodeImage = (
+  imageData: ImageData,
+  options: ExportOptions
+) => Promise<Blob>;
+
+// Quality of the frames of an animated WebP
+const WEBP_QUALITY = 0.9;
+
+// Video or animated image open in the editor. The editor image is its first
+// frame, the scrubber swaps in other frames for the preview, and exports
+// render every frame with the editor's settings.
+export function useMediaClip(encodeImage: EncodeImage) {
+  const [openClip, setOpenClip] = useState<OpenClip | null>(null);
+  const [frameIndex, setFrameIndex] = useState(0);
+  // Frame shown in the preview
+  const [frame, setFrame] = useState<ClipFrame | null>(null);
+  const [progress, setProgress] = useState<ClipProgress | null>(null);
+  const clipRef = useRef<MediaClip | null>(null);
+  // Scrubbing reads only the latest frame asked for once a read finishes
+  const pendingSeekRef = useRef<number | null>(null);
+  const isSeekingRef = useRef(false);
+  // Bumped to cancel an export
+  const exportRef = useRef(0);
+
+  // Open a file as a clip. createImage adds the editor image for the first
+  // frame and returns its id. Resolves to false for still images.
+  const open = useCallback(
+    async (file: File, createImage: (poster: string) => number) => {
+      const clip = await openMediaClip(file);
+      if (!clip) return false;
+
+      const first = await clip.readFrame(0);
+      const imageId = createImage(first.canvas.toDataURL());
+      exportRef.current++;
+      setProgress(null);
+      clipRef.current?.close();
+      clipRef.current = clip;
+      setOpenClip({ clip, imageId });
+      setFrameIndex(0);
+      setFrame(first);
+      return true;
+    },
+    []
+  );
+
+  const seek = useCallback(async (index: number) => {
+    setFrameIndex(index);
+    pendingSeekRef.current = index;
+    if (isSeekingRef.current) return;
+
+    isSeekingRef.current = true;
+    try {
+      while (pendingSeekRef.current !== null) {
+        const clip = clipRef.current;
+        const next = pendingSeekRef.current;
+        pendingSeekRef.current = null;
+        if (!clip) break;
+        const read = await clip.readFrame(next);
+        // A clip opened in the meantime has frames of its own
+        if (clipRef.current === clip) setFrame(read);
+      }
+    } finally {
+      isSeekingRef.current = false;
+    }
+  }, []);
+
+  // Render every frame with renderFrame and download the encoded clip
+  const exportClip = useCallback(
+    async (
+      format: ClipFormat,
+      name: string,
+      renderFrame: (source: HTMLCanvasElement) => Promise<ImageData | null>
+    ) => {
+      const clip = clipRef.current;
+      if (!clip) return;
+
+      const run = ++exportRef.current;
+      const total = clip.frameCount;
+      setProgress({ done: 0, total });
+      // One canvas for all frames, instead of one per frame
+      const target = document.createElement("canvas");
+      let encoder: ClipEncoder | null = null;
+      try {
+        for (let i = 0; i < total; i++) {
+          if (exportRef.current !== run) return;
+          const { canvas, timestamp, duration } = await clip.readFrame(
+            i,
+            target
+          );
+          const pixels = await renderFrame(canvas);
+          if (!pixels) throw new Error("Rendering the frame failed.");
+
+          // The output size is known once the first frame is rendered
+          encoder ??=
+            format === "webm"
+              ? await createWebmEncoder(pixels.width, pixels.height)
+              : createWebpEncoder(pixels.width, pixels.height, (imageData) =>
+                  encodeImage(imageData, {
+                    format: "webp",
+                    quality: WEBP_QUALITY,
+                  })
+                );
+          await encoder.addFrame(pixels, timestamp, duration);
+          setProgress({ done: i + 1, total });
+        }
+        if (!encoder || exportRef.current !== run) return;
+
+        const url = URL.createObjectURL(await encoder.finish());
+        downloadUrl(url, `${name}-blur.${CLIP_FORMATS[format].extension}`);
+        // Give the browser a moment to start the download before releasing it
+        setTimeout(() => URL.revokeObjectURL(url), 1000);
+      } finally {
+        encoder?.close();
+        if (exportRef.current === run) setProgress(null);
+      }
+    },
+    [encodeImage]
+  );
+
+  const cancelExport = useCallback(() => {
+    exportRef.current++;
+    setProgress(null);
+  }, []);
+
+  // Decoders hold on to the file and the video element
+  useEffect(
+    () => () => {
+      exportRef.current++;
+      clipRef.current?.close();
+      clipRef.current = null;
+    },
+    []
+  );
+
+  return {
+    clip: openClip?.clip ?? null,
+    clipImageId: openClip?.imageId ?? null,
+    frameIndex,
+    frame,
+    progress,
+    open,
+    seek,
+    exportClip,
+    cancelExport,
+  };
+}
@@ -0,0 +1,73 @@
+import { useCallback, useEffect, useState } from "react";
+import { BlurConfig } from "../lib/blurConfig";
+import { downloadUrl } from "../lib/export";
+import {
+  BlurPreset,
+  createPresetId,
+  exportPresetsFile,
+  importPresetsFile,
+  loadUserPresets,
+  saveUserPresets,
+} from "../lib/presets";
+
+// User presets, persisted to localStorage on every change
+export function usePresets() {
+  const [userPresets, setUserPresets] = useState(loadUserPresets);
+
+  useEffect(() => {
+    saveUserPresets(userPresets);
+  }, [userPresets]);
+
+  const savePreset = useCallback((name: string, config: BlurConfig) => {
+    setUserPresets((prev) => [
+      ...prev,
+      { id: createPresetId(), name: name.trim(), config },
+    ]);
+  }, []);
+
+  const renamePreset = useCallback((id: string, name: string) => {
+    setUserPresets((prev) =>
+      prev.map((preset) => (preset.id === id ? { ...preset, name } : preset))
+    );
+  }, []);
+
+  const deletePreset = useCallback((id: string) => {
+    setUserPresets((prev) => prev.filter((preset) => preset.id !== id));
+  }, []);
+
+  // Move a preset one place up (-1) or down (1) in the list
+  const movePreset = useCallback((id: string, offset: -1 | 1) => {
+    setUserPresets((prev) => {
+      const index = prev.findIndex((preset) => preset.id === id);
+      const target = index + offset;
+      if (index === -1 || target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  }, []);
+
+  // Append the presets of a file, resolves to how many were imported
+  const importPresets = useCallback(async (file: File) => {
+    const imported = await importPresetsFile(file);
+    setUserPresets((prev) => [...prev, ...imported]);
+    return imported.length;
+  }, []);
+
+  const exportPresets = useCallback((presets: BlurPreset[]) => {
+    const url = URL.createObjectURL(exportPresetsFile(presets));
+    downloadUrl(url, "blur-presets.json");
+    // Give the browser a moment to start the download before releasing it
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  }, []);
+
+  return {
+    userPresets,
+    savePreset,
+    renamePreset,
+    deletePreset,
+    movePreset,
+    importPresets,
+    exportPresets,
+  };
+}
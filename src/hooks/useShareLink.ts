@@ -0,0 +1,56 @@
+import { useCallback, useEffect, useState } from "react";
+import {
+  decodeShareState,
+  encodeShareState,
+  getShareUrl,
+  ShareState,
+} from "../lib/shareState";
+
+// Keeps the URL hash in sync with the current settings, so the address bar
+// always holds a link to exactly what is shown. Links pasted into an open tab
+// are handed to onOpenLink, which must be stable.
+export function useShareLink(
+  { config, sampleId }: ShareState,
+  onOpenLink: (state: Partial<ShareState>) => void
+) {
+  const [isLinkCopied, setIsLinkCopied] = useState(false);
+
+  useEffect(() => {
+    // Browsers rate limit history updates, dragging a slider would hit it
+    const timeout = setTimeout(() => {
+      const hash = `#${encodeShareState({ config, sampleId })}`;
+      if (window.location.hash !== hash) {
+        history.replaceState(history.state, "", hash);
+      }
+    }, 300);
+    return () => clearTimeout(timeout);
+  }, [config, sampleId]);
+
+  // replaceState doesn't fire hashchange, only edits of the address bar do
+  useEffect(() => {
+    const handleHashChange = () => {
+      onOpenLink(decodeShareState(window.location.hash));
+    };
+    window.addEventListener("hashchange", handleHashChange);
+    return () => window.removeEventListener("hashchange", handleHashChange);
+  }, [onOpenLink]);
+
+  useEffect(() => {
+    if (!isLinkCopied) return;
+    const timeout = setTimeout(() => setIsLinkCopied(false), 2000);
+    return () => clearTimeout(timeout);
+  }, [isLinkCopied]);
+
+  const copyLink = useCallback(async () => {
+    const url = getShareUrl({ config, sampleId });
+    try {
+      await navigator.clipboard.writeText(url);
+      setIsLinkCopied(true);
+    } catch {
+      // No clipboard access (e.g. an insecure origin), let the user copy it
+      window.prompt("Copy this link:", url);
+    }
+  }, [config, sampleId]);
+
+  return { copyLink, isLinkCopied };
+}
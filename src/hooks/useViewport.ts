@@ -0,0 +1,176 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { OutputFrame } from "../lib/crop";
+import {
+  centerViewOn,
+  getFrameHome,
+  getImageViewFit,
+  getPresetView,
+  getViewFit,
+  HOME_VIEW,
+  panView,
+  ViewPreset,
+  ViewTransform,
+  zoomViewAt,
+} from "../lib/viewport";
+
+interface Size {
+  width: number;
+  height: number;
+}
+
+// Zoom factor per pixel of wheel movement
+const WHEEL_ZOOM_SPEED = 0.002;
+
+// Zoom and pan of the canvas view of an output frame: wheel and pinch zoom on
+// the container, drag to pan on the element the pointer handlers are spread
+// on, presets and direct centering for the minimap. onDrag takes over one
+// pointer drags, like for moving the image under a crop.
+export function useViewport(
+  frame: OutputFrame | null,
+  imageSize: Size | null,
+  viewSize: Size,
+  pixelRatio: number,
+  padding: number,
+  onDrag?: (dx: number, dy: number) => void
+) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [view, setView] = useState<ViewTransform>(HOME_VIEW);
+  // Pointers currently down on the canvas, for panning and pinching
+  const pointersRef = useRef(new Map<number, { x: number; y: number }>());
+
+  const home = frame ? getFrameHome(frame, viewSize, padding) : null;
+  const frameFit = home ? getViewFit(home, viewSize, view) : null;
+  const imageFit = frame && frameFit ? getImageViewFit(frameFit, frame) : null;
+
+  // Zoom by a factor around a point of the view, in CSS pixels
+  const zoomAt = useCallback(
+    (point: { x: number; y: number }, factor: number) => {
+      if (!frame) return;
+      const home = getFrameHome(frame, viewSize, padding);
+      setView((prev) =>
+        zoomViewAt(
+          prev,
+          frame,
+          getViewFit(home, viewSize, prev),
+          viewSize,
+          point,
+          prev.zoom * factor
+        )
+      );
+    },
+    [frame, viewSize, padding]
+  );
+
+  const panBy = useCallback(
+    (dx: number, dy: number) => {
+      if (!frame) return;
+      const home = getFrameHome(frame, viewSize, padding);
+      setView((prev) =>
+        panView(prev, frame, getViewFit(home, viewSize, prev), dx, dy)
+      );
+    },
+    [frame, viewSize, padding]
+  );
+
+  // React's wheel listeners are passive, but ctrl + wheel (how trackpads
+  // report pinches) has to be kept from zooming the whole page
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const rect = container.getBoundingClientRect();
+      // Lines and pages are rare, treat them as roughly 20px per line
+      const delta =
+        e.deltaMode === WheelEvent.DOM_DELTA_PIXEL ? e.deltaY : e.deltaY * 20;
+      zoomAt(
+        { x: e.clientX - rect.left, y: e.clientY - rect.top },
+        Math.exp(-delta * WHEEL_ZOOM_SPEED)
+      );
+    };
+
+    container.addEventListener("wheel", handleWheel, { passive: false });
+    return () => container.removeEventListener("wheel", handleWheel);
+  }, [zoomAt]);
+
+  // One pointer pans, two pinch and pan around their midpoint
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const pointers = pointersRef.current;
+    const previous = pointers.get(e.pointerId);
+    if (!previous) return;
+    const current = { x: e.clientX, y: e.clientY };
+
+    const other = [...pointers.entries()].find(([id]) => id !== e.pointerId);
+    pointers.set(e.pointerId, current);
+    if (!other) {
+      if (onDrag) {
+        onDrag(current.x - previous.x, current.y - previous.y);
+      } else {
+        panBy(current.x - previous.x, current.y - previous.y);
+      }
+      return;
+    }
+
+    const [, anchor] = other;
+    const rect = containerRef.current?.getBoundingClientRect();
+    const left = rect?.left ?? 0;
+    const top = rect?.top ?? 0;
+    const previousDistance = Math.hypot(
+      previous.x - anchor.x,
+      previous.y - anchor.y
+    );
+    const distance = Math.hypot(current.x - anchor.x, current.y - anchor.y);
+    // Moving one finger moves the midpoint half as far
+    panBy((current.x - previous.x) / 2, (current.y - previous.y) / 2);
+    if (previousDistance > 0) {
+      zoomAt(
+        {
+          x: (current.x + anchor.x) / 2 - left,
+          y: (current.y + anchor.y) / 2 - top,
+        },
+        distance / previousDistance
+      );
+    }
+  };
+
+  const handlePointerEnd = (e: React.PointerEvent) => {
+    pointersRef.current.delete(e.pointerId);
+  };
+
+  const pointerHandlers = {
+    onPointerDown: (e: React.PointerEvent) => {
+      e.currentTarget.setPointerCapture(e.pointerId);
+      pointersRef.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    },
+    onPointerMove: handlePointerMove,
+    onPointerUp: handlePointerEnd,
+    onPointerCancel: handlePointerEnd,
+  };
+
+  const showPreset = (preset: ViewPreset) => {
+    if (!frame || !home || !imageSize) return;
+    setView(
+      getPresetView(preset, frame, home, imageSize, viewSize, pixelRatio)
+    );
+  };
+
+  // Center the view on an image point in 0–1 coordinates
+  const centerOn = (imageX: number, imageY: number) => {
+    if (!frame) return;
+    setView((prev) => centerViewOn(prev, frame, imageX, imageY));
+  };
+
+  const resetView = useCallback(() => setView(HOME_VIEW), []);
+
+  return {
+    containerRef,
+    view,
+    frameFit,
+    imageFit,
+    pointerHandlers,
+    showPreset,
+    centerOn,
+    resetView,
+  };
+}
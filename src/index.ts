@@ -0,0 +1,35 @@
+// Library entry point, everything other apps can import. The React component
+// lives in react.ts, the demo app itself starts in main.tsx.
+
+export {
+  applyProgressiveBlur,
+  type ApplyBlurOptions,
+  type BlurSource,
+} from "./lib/applyProgressiveBlur";
+export {
+  BLUR_CONFIG_VERSION,
+  BlurConfigError,
+  DEFAULT_BLUR_CONFIG,
+  isBlurActive,
+  parseBlurConfig,
+  type BlurBackend,
+  type BlurConfig,
+  type BlurMask,
+  type BlurType,
+  type MaskMode,
+} from "./lib/blurConfig";
+export { blurImageCPU } from "./lib/cpuBlur";
+export {
+  cubicBezier,
+  EASING_NAMES,
+  multiStop,
+  type BezierPoints,
+  type CurveStop,
+  type EasingFunction,
+} from "./lib/easing";
+export { ImageWorkerError, type ImageWorkerErrorCode } from "./lib/errors";
+export {
+  createBlurRenderer,
+  type BlurRenderer,
+  type RenderOptions,
+} from "./lib/gpuBlur";
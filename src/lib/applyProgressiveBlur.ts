@@ -0,0 +1,96 @@
+import { BlurConfig, BlurMask, parseBlurConfig } from "./blurConfig";
+import { blurImageCPU } from "./cpuBlur";
+import { ImageWorkerError } from "./errors";
+import { EXPORT_FORMATS, ExportFormat } from "./export";
+import { BlurRenderer, createBlurRenderer } from "./gpuBlur";
+
+export type BlurSource = ImageBitmap | ImageData;
+
+export interface ApplyBlurOptions {
+  // Custom mask for the "custom" mask mode. The blur strength is taken from
+  // its alpha channel only, 0 = sharp and 255 = full blur, so a grayscale
+  // ImageData has to have its brightness moved into alpha first.
+  mask?: BlurMask;
+  // Renderer to use instead of the shared one
+  renderer?: BlurRenderer;
+  // Encoding of blob results
+  format?: ExportFormat;
+  quality?: number;
+}
+
+// Shared by all calls without their own renderer. Stays null when WebGL2 is
+// missing, those calls use the CPU blur instead.
+let sharedRenderer: BlurRenderer | null | undefined;
+
+function getSharedRenderer() {
+  if (sharedRenderer === undefined) {
+    try {
+      sharedRenderer = createBlurRenderer();
+    } catch (err) {
+      if (!(err instanceof ImageWorkerError)) throw err;
+      sharedRenderer = null;
+    }
+  }
+  return sharedRenderer;
+}
+
+function getImageData(source: BlurSource) {
+  if (source instanceof ImageData) return source;
+
+  const canvas = new OffscreenCanvas(source.width, source.height);
+  const ctx = canvas.getContext("2d", { willReadFrequently: true });
+  if (!ctx) {
+    throw new Error(
+      "OffscreenCanvas 2D context not supported in this environment."
+    );
+  }
+  ctx.drawImage(source, 0, 0);
+  return ctx.getImageData(0, 0, source.width, source.height);
+}
+
+// Blur an image with the given settings, missing ones use the app defaults
+// and out of range ones are clamped (see parseBlurConfig).
+// Resolves to an ImageBitmap, or to an encoded Blob with output "blob".
+// Renders synchronously on the calling thread, call it from a worker to keep
+// the main thread free.
+export function applyProgressiveBlur(
+  source: BlurSource,
+  config?: Partial<BlurConfig>,
+  options?: ApplyBlurOptions & { output?: "bitmap" }
+): Promise<ImageBitmap>;
+export function applyProgressiveBlur(
+  source: BlurSource,
+  config: Partial<BlurConfig> | undefined,
+  options: ApplyBlurOptions & { output: "blob" }
+): Promise<Blob>;
+export async function applyProgressiveBlur(
+  source: BlurSource,
+  config: Partial<BlurConfig> = {},
+  options: ApplyBlurOptions & { output?: "bitmap" | "blob" } = {}
+): Promise<ImageBitmap | Blob> {
+  const fullConfig = parseBlurConfig(config);
+  const { data, width, height } = getImageData(source);
+  const renderer = options.renderer ?? getSharedRenderer();
+  const pixels = renderer
+    ? renderer.render(data, width, height, fullConfig, { mask: options.mask })
+    : blurImageCPU(data, width, height, fullConfig, options.mask);
+  const result = new ImageData(pixels, width, height);
+
+  if (options.output !== "blob") {
+    return createImageBitmap(result);
+  }
+
+  const canvas = new OffscreenCanvas(width, height);
+  const ctx = canvas.getContext("2d");
+  if (!ctx) {
+    throw new Error(
+      "OffscreenCanvas 2D context not supported in this environment."
+    );
+  }
+  ctx.putImageData(result, 0, 0);
+  const { mimeType, lossy } = EXPORT_FORMATS[options.format ?? "png"];
+  return canvas.convertToBlob({
+    type: mimeType,
+    quality: lossy ? (options.quality ?? 0.9) : undefined,
+  });
+}
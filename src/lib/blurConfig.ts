@@ -0,0 +1,302 @@
+import {
+  BezierPoints,
+  CurveStop,
+  DEFAULT_BEZIER,
+  DEFAULT_CURVE_STOPS,
+  EASING_NAMES,
+} from "./easing";
+import { normalizeAngle } from "./gradient";
+
+export const BLUR_BACKENDS = ["exact", "pyramid"] as const;
+export type BlurBackend = (typeof BLUR_BACKENDS)[number];
+
+export const BLUR_TYPES = ["none", "linear", "gaussian"] as const;
+export type BlurType = (typeof BLUR_TYPES)[number];
+
+// Shape of the blur mask: a ramp, a focus point, a sharp band or a mask
+// image painted or imported by the user
+export const MASK_MODE_NAMES = [
+  "linear",
+  "radial",
+  "elliptical",
+  "tiltShift",
+  "custom",
+] as const;
+export type MaskMode = (typeof MASK_MODE_NAMES)[number];
+
+// Bump when the shape of BlurConfig changes and add a migration below
+export const BLUR_CONFIG_VERSION = 3;
+
+// Largest kernel the shader can handle (2 * MAX_RADIUS + 1 in gpuBlur.ts)
+export const MAX_SHADER_KERNEL_SIZE = 2001;
+
+// Smallest distance between the start and end of the blur ramp
+export const MIN_BLUR_RANGE = 0.01;
+
+export const MIN_FOCUS_ASPECT = 0.2;
+export const MAX_FOCUS_ASPECT = 5;
+
+// Saturation and brightness factors, 1 leaves the color alone
+export const MAX_GLASS_FACTOR = 2;
+
+// Configuration type for blur filter
+export interface BlurConfig {
+  version: number;
+  enabled: boolean;
+  startPoint: number;
+  endPoint: number;
+  maxKernelSize: number;
+  easing: string;
+  // Curve shapes for the "cubicBezier" and "multiStop" easings
+  easingBezier: BezierPoints;
+  easingStops: CurveStop[];
+  blurType: BlurType;
+  // Direction the blur grows towards in degrees, 0 = top to bottom. Focus
+  // masks use it as the rotation of the ellipse or band.
+  angle: number;
+  // "exact" runs the separable blur, "pyramid" blends between downsampled
+  // levels and costs the same no matter how large the kernel gets
+  backend: BlurBackend;
+  maskMode: MaskMode;
+  // Focus center in 0–1 coordinates of the rendered frame
+  focusX: number;
+  focusY: number;
+  // Ellipse width / height, only used by the elliptical mask
+  focusAspect: number;
+  // Frosted glass look, faded in along the same ramp as the blur. A tint
+  // color ("#rrggbb") mixed in up to tintOpacity, saturation and brightness
+  // factors and grain against banding. The defaults leave the blur alone.
+  tintColor: string;
+  tintOpacity: number;
+  saturation: number;
+  brightness: number;
+  noise: number;
+}
+
+// User supplied mask. Only its alpha channel is read, as the blur strength per
+// pixel: 0 = sharp, 255 = full blur. Color channels are ignored.
+export interface BlurMask {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+// Settings the app starts with, also the defaults of the CLI
+export const DEFAULT_BLUR_CONFIG: BlurConfig = {
+  version: BLUR_CONFIG_VERSION,
+  enabled: true,
+  startPoint: 0.3,
+  endPoint: 1,
+  maxKernelSize: 299,
+  easing: "easeInOut",
+  easingBezier: DEFAULT_BEZIER,
+  easingStops: DEFAULT_CURVE_STOPS,
+  blurType: "gaussian",
+  angle: 0,
+  backend: "exact",
+  maskMode: "linear",
+  focusX: 0.5,
+  focusY: 0.5,
+  focusAspect: 2,
+  tintColor: "#ffffff",
+  tintOpacity: 0,
+  saturation: 1,
+  brightness: 1,
+  noise: 0,
+};
+
+// Whether a config blurs anything at all
+export function isBlurActive(config: BlurConfig) {
+  return config.enabled && config.blurType !== "none";
+}
+
+// Whether the frosted glass pass changes anything
+export function hasGlassEffects(config: BlurConfig) {
+  return (
+    config.tintOpacity > 0 ||
+    config.saturation !== 1 ||
+    config.brightness !== 1 ||
+    config.noise > 0
+  );
+}
+
+// "#rrggbb" as 0–1 channels
+export function parseHexColor(color: string): [number, number, number] {
+  const value = parseInt(color.slice(1), 16);
+  return [
+    (value >> 16) / 255,
+    ((value >> 8) & 0xff) / 255,
+    (value & 0xff) / 255,
+  ];
+}
+
+// Config that can't be turned into a BlurConfig at all, e.g. not an object or
+// saved by a newer version of the app
+export class BlurConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BlurConfigError";
+  }
+}
+
+type RawConfig = Record<string, unknown>;
+
+// Migrations from the version in the key to the next one. Configs without a
+// version field are version 1, the shape from before versioning.
+const MIGRATIONS: Record<number, (raw: RawConfig) => RawConfig> = {
+  // Version 1 had an optional gaussian sigma the renderers never read, they
+  // derive it from the kernel size. Dropping it keeps old configs looking
+  // exactly the same.
+  1: (raw) => {
+    const migrated = { ...raw };
+    delete migrated.sigma;
+    return migrated;
+  },
+  // Version 3 added the frosted glass settings, missing ones default to off
+  2: (raw) => raw,
+};
+
+function clamp(value: number, min: number, max: number) {
+  return Math.min(max, Math.max(min, value));
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+function readNumber(
+  value: unknown,
+  fallback: number,
+  min = -Infinity,
+  max = Infinity
+) {
+  return isFiniteNumber(value) ? clamp(value, min, max) : fallback;
+}
+
+function readChoice<T extends string>(
+  value: unknown,
+  choices: readonly T[],
+  fallback: T
+) {
+  return choices.includes(value as T) ? (value as T) : fallback;
+}
+
+function readColor(value: unknown, fallback: string) {
+  return typeof value === "string" && /^#[0-9a-f]{6}$/i.test(value)
+    ? value.toLowerCase()
+    : fallback;
+}
+
+function readBezier(value: unknown): BezierPoints {
+  if (
+    !Array.isArray(value) ||
+    value.length !== 4 ||
+    !value.every(isFiniteNumber)
+  ) {
+    return DEFAULT_BEZIER;
+  }
+  // Like CSS, x has to stay in 0–1 so the curve is a function of x
+  const [x1, y1, x2, y2] = value;
+  return [clamp(x1, 0, 1), y1, clamp(x2, 0, 1), y2];
+}
+
+function readStops(value: unknown): CurveStop[] {
+  if (!Array.isArray(value)) return DEFAULT_CURVE_STOPS;
+  const stops = value
+    .filter(
+      (stop): stop is CurveStop =>
+        typeof stop === "object" &&
+        stop !== null &&
+        isFiniteNumber(stop.x) &&
+        isFiniteNumber(stop.y)
+    )
+    .map((stop) => ({ x: clamp(stop.x, 0, 1), y: clamp(stop.y, 0, 1) }))
+    .sort((a, b) => a.x - b.x);
+  return stops.length >= 2 ? stops : DEFAULT_CURVE_STOPS;
+}
+
+// Turn anything (a saved config, a message from the main thread, a partial
+// config from a library user) into a valid BlurConfig of the current version.
+// Old versions are migrated, missing or malformed fields fall back to the
+// defaults and numbers are clamped to what the renderers can handle.
+export function parseBlurConfig(input: unknown): BlurConfig {
+  if (typeof input !== "object" || input === null || Array.isArray(input)) {
+    throw new BlurConfigError("Blur config must be an object.");
+  }
+
+  let raw = input as RawConfig;
+  const version = raw.version ?? 1;
+  if (
+    typeof version !== "number" ||
+    !Number.isInteger(version) ||
+    version < 1
+  ) {
+    throw new BlurConfigError(`Unknown blur config version ${version}.`);
+  }
+  if (version > BLUR_CONFIG_VERSION) {
+    throw new BlurConfigError(
+      `Blur config version ${version} is newer than this app supports (${BLUR_CONFIG_VERSION}).`
+    );
+  }
+  for (let from = version; from < BLUR_CONFIG_VERSION; from++) {
+    raw = MIGRATIONS[from](raw);
+  }
+
+  const defaults = DEFAULT_BLUR_CONFIG;
+  // Start stays before end, the handles can't pass each other. The end is
+  // pushed out to keep a ramp of at least MIN_BLUR_RANGE.
+  // Positions aren't limited to 0–1: settings mapped onto part of the image
+  // (exports, zoomed views) can put them and the focus outside the frame.
+  const [startPoint, lastPoint] = [
+    readNumber(raw.startPoint, defaults.startPoint),
+    readNumber(raw.endPoint, defaults.endPoint),
+  ].sort((a, b) => a - b);
+  const endPoint = Math.max(lastPoint, startPoint + MIN_BLUR_RANGE);
+  // Kernel sizes are whole pixels and the shader loop has a fixed bound
+  const maxKernelSize = Math.round(
+    readNumber(
+      raw.maxKernelSize,
+      defaults.maxKernelSize,
+      1,
+      MAX_SHADER_KERNEL_SIZE
+    )
+  );
+
+  return {
+    version: BLUR_CONFIG_VERSION,
+    enabled: typeof raw.enabled === "boolean" ? raw.enabled : defaults.enabled,
+    startPoint,
+    endPoint,
+    maxKernelSize,
+    easing: readChoice(raw.easing, EASING_NAMES, defaults.easing),
+    easingBezier: readBezier(raw.easingBezier),
+    easingStops: readStops(raw.easingStops),
+    blurType: readChoice(raw.blurType, BLUR_TYPES, defaults.blurType),
+    angle: normalizeAngle(readNumber(raw.angle, defaults.angle)),
+    backend: readChoice(raw.backend, BLUR_BACKENDS, defaults.backend),
+    maskMode: readChoice(raw.maskMode, MASK_MODE_NAMES, defaults.maskMode),
+    focusX: readNumber(raw.focusX, defaults.focusX),
+    focusY: readNumber(raw.focusY, defaults.focusY),
+    focusAspect: readNumber(
+      raw.focusAspect,
+      defaults.focusAspect,
+      MIN_FOCUS_ASPECT,
+      MAX_FOCUS_ASPECT
+    ),
+    tintColor: readColor(raw.tintColor, defaults.tintColor),
+    tintOpacity: readNumber(raw.tintOpacity, defaults.tintOpacity, 0, 1),
+    saturation: readNumber(
+      raw.saturation,
+      defaults.saturation,
+      0,
+      MAX_GLASS_FACTOR
+    ),
+    brightness: readNumber(
+      raw.brightness,
+      defaults.brightness,
+      0,
+      MAX_GLASS_FACTOR
+    ),
+    noise: readNumber(raw.noise, defaults.noise, 0, 1),
+  };
+}
@@ -0,0 +1,60 @@
+// "split" shows the original on one side of a draggable divider,
+// "sideBySide" puts the centers of both frames next to each other
+export type CompareMode = "off" | "split" | "sideBySide";
+
+// Direction of the divider line in split mode
+export type SplitOrientation = "vertical" | "horizontal";
+
+export interface CompareView {
+  mode: CompareMode;
+  orientation: SplitOrientation;
+  // Divider position across the view, 0–1
+  position: number;
+  // Press-and-hold: the original covers the whole view
+  showOriginal: boolean;
+}
+
+const percent = (value: number) => `${value * 100}%`;
+
+// Styles for the canvas with the blurred frame and the one with the original
+// on top of it. Both canvases always hold their frame, so switching between
+// views is only a matter of clipping and moving them.
+export function getCompareStyles({
+  mode,
+  orientation,
+  position,
+  showOriginal,
+}: CompareView): {
+  processed: React.CSSProperties;
+  original: React.CSSProperties;
+} {
+  if (showOriginal) {
+    return { processed: {}, original: {} };
+  }
+  if (mode === "split") {
+    return {
+      processed: {},
+      original: {
+        clipPath:
+          orientation === "vertical"
+            ? `inset(0 ${percent(1 - position)} 0 0)`
+            : `inset(0 0 ${percent(1 - position)} 0)`,
+      },
+    };
+  }
+  if (mode === "sideBySide") {
+    // Shift each frame by a quarter so its center lands in the middle of its
+    // half, then clip it to that half
+    return {
+      processed: {
+        transform: "translateX(25%)",
+        clipPath: "inset(0 25% 0 25%)",
+      },
+      original: {
+        transform: "translateX(-25%)",
+        clipPath: "inset(0 25% 0 25%)",
+      },
+    };
+  }
+  return { processed: {}, original: { visibility: "hidden" } };
+}
@@ -0,0 +1,261 @@
+import {
+  BlurConfig,
+  BlurMask,
+  hasGlassEffects,
+  parseHexColor,
+} from "./blurConfig";
+import { bakeEasingLut, getEasingFunction } from "./easing";
+import { getGradientDirection, getGradientLength } from "./gradient";
+
+// Linear interpolation into the easing table, like the LUT texture lookup
+function sampleLut(lut: Float32Array, x: number) {
+  const position = Math.min(1, Math.max(0, x)) * (lut.length - 1);
+  const index = Math.floor(position);
+  const next = Math.min(index + 1, lut.length - 1);
+  return lut[index] + (lut[next] - lut[index]) * (position - index);
+}
+
+// Bilinear alpha lookup in the mask at texture coordinates u, v
+function sampleMaskAlpha(mask: BlurMask, u: number, v: number) {
+  const x = Math.min(Math.max(u * mask.width - 0.5, 0), mask.width - 1);
+  const y = Math.min(Math.max(v * mask.height - 0.5, 0), mask.height - 1);
+  const x0 = Math.floor(x);
+  const y0 = Math.floor(y);
+  const x1 = Math.min(x0 + 1, mask.width - 1);
+  const y1 = Math.min(y0 + 1, mask.height - 1);
+  const alpha = (px: number, py: number) =>
+    mask.data[(py * mask.width + px) * 4 + 3] / 255;
+  const top = alpha(x0, y0) + (alpha(x1, y0) - alpha(x0, y0)) * (x - x0);
+  const bottom = alpha(x0, y1) + (alpha(x1, y1) - alpha(x0, y1)) * (x - x0);
+  return top + (bottom - top) * (y - y0);
+}
+
+// Progress along the ramp of the pixel at texture coordinates u, v: the
+// custom mask's alpha, or where it sits between the start and end point.
+// -Infinity before the blur starts and Infinity past its full strength.
+function createRampProgress(
+  width: number,
+  height: number,
+  config: BlurConfig,
+  mask?: BlurMask
+) {
+  const [dx, dy] = getGradientDirection(config.angle);
+  const gradientLength = getGradientLength(width, height, [dx, dy]);
+  const halfDiagonal = 0.5 * Math.hypot(width, height);
+  const aspect = config.maskMode === "elliptical" ? config.focusAspect : 1;
+
+  const position = (u: number, v: number) => {
+    if (config.maskMode === "linear") {
+      const px = (u - 0.5) * width;
+      const py = (v - 0.5) * height;
+      return (px * dx + py * dy) / gradientLength + 0.5;
+    }
+    const px = (u - config.focusX) * width;
+    const py = (v - config.focusY) * height;
+    if (config.maskMode === "tiltShift") {
+      return Math.abs(px * dx + py * dy) / (0.5 * gradientLength);
+    }
+    // Rotate into the ellipse frame, its major axis is perpendicular to the gradient
+    const qx = px * dy - py * dx;
+    const qy = (px * dx + py * dy) * aspect;
+    return Math.hypot(qx, qy) / halfDiagonal;
+  };
+
+  return (u: number, v: number) => {
+    if (config.maskMode === "custom") {
+      // Like the empty mask texture when nothing has been painted yet
+      return mask ? sampleMaskAlpha(mask, u, v) : 0;
+    }
+    const p = position(u, v);
+    if (p < config.startPoint) return -Infinity;
+    // Also turns a zero-length ramp into a hard step instead of 0 / 0
+    if (p >= config.endPoint) return Infinity;
+    return (p - config.startPoint) / (config.endPoint - config.startPoint);
+  };
+}
+
+// Kernel size for every pixel. Mirrors blurKernelSize() in the shaders of
+// gpuBlur.ts, so both paths blur the same areas by the same amount.
+export function getKernelSizes(
+  width: number,
+  height: number,
+  config: BlurConfig,
+  mask?: BlurMask
+): Float32Array {
+  const lut = bakeEasingLut(getEasingFunction(config));
+  const progress = createRampProgress(width, height, config, mask);
+
+  const kernelForProgress = (progress: number) => {
+    const kernelSize = Math.floor(
+      sampleLut(lut, progress) * config.maxKernelSize
+    );
+    // Ensure odd kernel size
+    return kernelSize % 2 === 0 ? kernelSize + 1 : kernelSize;
+  };
+
+  const sizes = new Float32Array(width * height);
+  for (let y = 0; y < height; y++) {
+    const v = (y + 0.5) / height;
+    for (let x = 0; x < width; x++) {
+      const t = progress((x + 0.5) / width, v);
+      sizes[y * width + x] =
+        t === -Infinity
+          ? 0
+          : t === Infinity
+            ? config.maxKernelSize
+            : kernelForProgress(t);
+    }
+  }
+  return sizes;
+}
+
+// Same integer hash as pixelNoise() in the glass shader
+function pixelNoise(x: number, y: number) {
+  let h = (Math.imul(x, 73856093) ^ Math.imul(y, 19349663)) >>> 0;
+  h ^= h >>> 16;
+  h = Math.imul(h, 0x7feb352d) >>> 0;
+  h ^= h >>> 15;
+  h = Math.imul(h, 0x846ca68b) >>> 0;
+  h ^= h >>> 16;
+  return h / 4294967295;
+}
+
+// Frosted glass pass on blurred pixels, in place. Mirrors the glass shader
+// in gpuBlur.ts.
+function glassCPU(
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  config: BlurConfig,
+  mask?: BlurMask
+) {
+  const lut = bakeEasingLut(getEasingFunction(config));
+  const progress = createRampProgress(width, height, config, mask);
+  const tint = parseHexColor(config.tintColor);
+
+  for (let y = 0; y < height; y++) {
+    const v = (y + 0.5) / height;
+    for (let x = 0; x < width; x++) {
+      const t = progress((x + 0.5) / width, v);
+      const amount =
+        t === -Infinity ? 0 : t === Infinity ? 1 : sampleLut(lut, t);
+      if (!(amount > 0)) continue;
+
+      const index = (y * width + x) * 4;
+      const r = data[index] / 255;
+      const g = data[index + 1] / 255;
+      const b = data[index + 2] / 255;
+      const luma = 0.2126 * r + 0.7152 * g + 0.0722 * b;
+      const saturation = 1 + (config.saturation - 1) * amount;
+      const brightness = 1 + (config.brightness - 1) * amount;
+      const tintAmount = config.tintOpacity * amount;
+      const grain = (pixelNoise(x, y) - 0.5) * 0.2 * config.noise * amount;
+      [r, g, b].forEach((channel, i) => {
+        const color = (luma + (channel - luma) * saturation) * brightness;
+        const tinted = color + (tint[i] - color) * tintAmount + grain;
+        data[index + i] = Math.round(tinted * 255);
+      });
+    }
+  }
+}
+
+// One direction of the separable blur, edges are clamped like the GPU's
+// CLAMP_TO_EDGE sampling
+function blurPass(
+  source: Uint8ClampedArray,
+  width: number,
+  height: number,
+  kernelSizes: Float32Array,
+  gaussian: boolean,
+  horizontal: boolean
+): Uint8ClampedArray {
+  const output = new Uint8ClampedArray(source.length);
+  const weightCache = new Map<number, Float32Array>();
+
+  // Weights for offsets -radius..radius of a kernel size
+  const getWeights = (kernelSize: number) => {
+    let weights = weightCache.get(kernelSize);
+    if (!weights) {
+      const radius = Math.floor((kernelSize - 1) / 2);
+      const sigma = kernelSize / 6;
+      weights = new Float32Array(radius * 2 + 1);
+      for (let i = -radius; i <= radius; i++) {
+        weights[i + radius] = gaussian
+          ? Math.exp(-0.5 * (i / sigma) * (i / sigma))
+          : 1;
+      }
+      weightCache.set(kernelSize, weights);
+    }
+    return weights;
+  };
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const index = y * width + x;
+      const kernelSize = kernelSizes[index];
+      // If no blur, just pass through
+      if (kernelSize < 1) {
+        output.set(source.subarray(index * 4, index * 4 + 4), index * 4);
+        continue;
+      }
+
+      const weights = getWeights(kernelSize);
+      const radius = (weights.length - 1) / 2;
+      let r = 0;
+      let g = 0;
+      let b = 0;
+      let a = 0;
+      let weightSum = 0;
+      for (let i = -radius; i <= radius; i++) {
+        const sx = horizontal ? Math.min(Math.max(x + i, 0), width - 1) : x;
+        const sy = horizontal ? y : Math.min(Math.max(y + i, 0), height - 1);
+        const sourceIndex = (sy * width + sx) * 4;
+        const weight = weights[i + radius];
+        r += source[sourceIndex] * weight;
+        g += source[sourceIndex + 1] * weight;
+        b += source[sourceIndex + 2] * weight;
+        a += source[sourceIndex + 3] * weight;
+        weightSum += weight;
+      }
+      output[index * 4] = r / weightSum;
+      output[index * 4 + 1] = g / weightSum;
+      output[index * 4 + 2] = b / weightSum;
+      output[index * 4 + 3] = a / weightSum;
+    }
+  }
+  return output;
+}
+
+// Progressive blur on the CPU, for environments without WebGL2. Matches the
+// exact separable GPU path, just a lot slower for large kernels.
+export function blurImageCPU(
+  imageData: Uint8ClampedArray,
+  width: number,
+  height: number,
+  config: BlurConfig,
+  mask?: BlurMask
+): Uint8ClampedArray {
+  const kernelSizes = getKernelSizes(width, height, config, mask);
+  const gaussian = config.blurType === "gaussian";
+  // Round between the passes just like the RGBA8 intermediate texture does
+  const horizontal = blurPass(
+    imageData,
+    width,
+    height,
+    kernelSizes,
+    gaussian,
+    true
+  );
+  const output = blurPass(
+    horizontal,
+    width,
+    height,
+    kernelSizes,
+    gaussian,
+    false
+  );
+  if (hasGlassEffects(config)) {
+    glassCPU(output, width, height, config, mask);
+  }
+  return output;
+}
@@ -0,0 +1,202 @@
+import { BlurConfig } from "./blurConfig";
+import { CoverFit, getCoverFit, mapBlurConfigToImage } from "./export";
+
+// "window" keeps the frame the size of the browser window, every other choice
+// fixes an output frame independent of it. "free" takes the whole image.
+export const CROP_ASPECTS = [
+  "window",
+  "free",
+  "1:1",
+  "4:5",
+  "16:9",
+  "9:16",
+  "custom",
+] as const;
+
+export type CropAspect = (typeof CROP_ASPECTS)[number];
+
+export const CROP_ASPECT_LABELS: Record<CropAspect, string> = {
+  window: "Window",
+  free: "Free",
+  "1:1": "1:1",
+  "4:5": "4:5",
+  "16:9": "16:9",
+  "9:16": "9:16",
+  custom: "Custom",
+};
+
+export interface CropSettings {
+  aspect: CropAspect;
+  // Output size in pixels for the custom aspect
+  width: number;
+  height: number;
+  // Where the frame sits across the part of the image it can move over, 0–1
+  positionX: number;
+  positionY: number;
+}
+
+export const DEFAULT_CROP: CropSettings = {
+  aspect: "window",
+  width: 1080,
+  height: 1080,
+  positionX: 0.5,
+  positionY: 0.5,
+};
+
+// Largest custom output size, on either side
+export const MAX_OUTPUT_SIZE = 8192;
+
+// The frame blur settings are tuned on and exports are cut from. Sizes are in
+// its own units: CSS pixels of the window, or output pixels for a crop.
+export interface OutputFrame {
+  width: number;
+  height: number;
+  // Device pixels per unit, blur kernel sizes are measured in device pixels
+  pixelRatio: number;
+  // Where the whole image lies in the frame
+  imageFit: CoverFit;
+}
+
+interface Size {
+  width: number;
+  height: number;
+}
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+const RATIOS: Partial<Record<CropAspect, number>> = {
+  "1:1": 1,
+  "4:5": 4 / 5,
+  "16:9": 16 / 9,
+  "9:16": 9 / 16,
+};
+
+export function isWindowFrame(crop: CropSettings) {
+  return crop.aspect === "window";
+}
+
+export function getOutputFrame(
+  crop: CropSettings,
+  image: Size,
+  windowSize: Size,
+  pixelRatio: number
+): OutputFrame {
+  if (isWindowFrame(crop)) {
+    // Cover the window like always, but slid by the position
+    const cover = getCoverFit(
+      image.width,
+      image.height,
+      windowSize.width,
+      windowSize.height
+    );
+    return {
+      width: windowSize.width,
+      height: windowSize.height,
+      pixelRatio,
+      imageFit: {
+        ...cover,
+        offsetX: (windowSize.width - cover.drawWidth) * crop.positionX,
+        offsetY: (windowSize.height - cover.drawHeight) * crop.positionY,
+      },
+    };
+  }
+
+  const ratio =
+    crop.aspect === "custom"
+      ? crop.width / crop.height
+      : (RATIOS[crop.aspect] ?? image.width / image.height);
+  // Largest part of the image with that ratio, in source pixels
+  const cropWidth = Math.min(image.width, image.height * ratio);
+  const cropHeight = cropWidth / ratio;
+  // Ratios export at source resolution, custom sizes scale the crop
+  const width = crop.aspect === "custom" ? crop.width : Math.round(cropWidth);
+  const height =
+    crop.aspect === "custom" ? crop.height : Math.round(cropHeight);
+  const scale = width / cropWidth;
+
+  return {
+    width,
+    height,
+    pixelRatio: 1,
+    imageFit: {
+      offsetX: -(image.width - cropWidth) * crop.positionX * scale,
+      offsetY: -(image.height - cropHeight) * crop.positionY * scale,
+      drawWidth: image.width * scale,
+      drawHeight: image.height * scale,
+    },
+  };
+}
+
+// Move the image under the frame by dx, dy frame units
+export function moveCrop(
+  crop: CropSettings,
+  frame: OutputFrame,
+  dx: number,
+  dy: number
+): CropSettings {
+  const slackX = frame.imageFit.drawWidth - frame.width;
+  const slackY = frame.imageFit.drawHeight - frame.height;
+  return {
+    ...crop,
+    positionX:
+      slackX > 0 ? clamp01(crop.positionX - dx / slackX) : crop.positionX,
+    positionY:
+      slackY > 0 ? clamp01(crop.positionY - dy / slackY) : crop.positionY,
+  };
+}
+
+export function clampOutputSize(value: number) {
+  return Math.min(MAX_OUTPUT_SIZE, Math.max(1, Math.round(value)));
+}
+
+// Full resolution pixels an export starts from, with the settings mapped onto
+// them: the crop at output size, or the whole source image for the window
+// frame. Masks are left to the caller, they are sampled differently for each.
+export function getFramePixels(
+  source: CanvasImageSource,
+  image: Size,
+  crop: CropSettings,
+  config: BlurConfig,
+  windowSize: Size,
+  pixelRatio: number
+) {
+  const frame = getOutputFrame(crop, image, windowSize, pixelRatio);
+  const canvas = document.createElement("canvas");
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return null;
+
+  if (!isWindowFrame(crop)) {
+    // The settings are relative to the output frame already
+    const { imageFit } = frame;
+    canvas.width = frame.width;
+    canvas.height = frame.height;
+    ctx.imageSmoothingQuality = "high";
+    ctx.drawImage(
+      source,
+      imageFit.offsetX,
+      imageFit.offsetY,
+      imageFit.drawWidth,
+      imageFit.drawHeight
+    );
+    return {
+      frame,
+      imageData: ctx.getImageData(0, 0, canvas.width, canvas.height),
+      config,
+    };
+  }
+
+  canvas.width = image.width;
+  canvas.height = image.height;
+  ctx.drawImage(source, 0, 0, image.width, image.height);
+  return {
+    frame,
+    imageData: ctx.getImageData(0, 0, canvas.width, canvas.height),
+    config: mapBlurConfigToImage(
+      config,
+      frame.imageFit,
+      frame,
+      frame.pixelRatio,
+      image.width
+    ),
+  };
+}
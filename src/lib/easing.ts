@@ -0,0 +1,128 @@
+export type EasingFunction = (x: number) => number;
+
+// Point of a piecewise linear easing curve, both axes in 0–1
+export interface CurveStop {
+  x: number;
+  y: number;
+}
+
+// Control points of a CSS-style cubic-bezier(x1, y1, x2, y2)
+export type BezierPoints = [number, number, number, number];
+
+// Built-in curves. These used to live in the fragment shader and keep its
+// exact formulas, including easeIn dipping below zero for the first half.
+export const EASINGS: Record<string, EasingFunction> = {
+  linear: (x) => x,
+  easeIn: (x) => x * x * (2 * x - 1),
+  easeOut: (x) => x * (2 - x),
+  easeInOut: (x) => (x < 0.5 ? 2 * x * x : -1 + (4 - 2 * x) * x),
+};
+
+// Easings whose shape comes from the config instead of a fixed formula
+export const CUSTOM_EASINGS = ["cubicBezier", "multiStop"] as const;
+
+export const EASING_NAMES = [...Object.keys(EASINGS), ...CUSTOM_EASINGS];
+
+export const DEFAULT_BEZIER: BezierPoints = [0.42, 0, 0.58, 1];
+
+// Hold sharp, ramp up, then plateau at full blur
+export const DEFAULT_CURVE_STOPS: CurveStop[] = [
+  { x: 0, y: 0 },
+  { x: 0.25, y: 0 },
+  { x: 0.75, y: 1 },
+  { x: 1, y: 1 },
+];
+
+// Number of samples in the baked lookup table
+export const EASING_LUT_SIZE = 1024;
+
+// Cubic bezier through (0,0) and (1,1), solved for x the same way browsers
+// do: a few Newton iterations with bisection as the fallback.
+export function cubicBezier([x1, y1, x2, y2]: BezierPoints): EasingFunction {
+  const cx = 3 * x1;
+  const bx = 3 * (x2 - x1) - cx;
+  const ax = 1 - cx - bx;
+  const cy = 3 * y1;
+  const by = 3 * (y2 - y1) - cy;
+  const ay = 1 - cy - by;
+
+  const sampleX = (t: number) => ((ax * t + bx) * t + cx) * t;
+  const sampleY = (t: number) => ((ay * t + by) * t + cy) * t;
+  const sampleDerivativeX = (t: number) => (3 * ax * t + 2 * bx) * t + cx;
+
+  const solveX = (x: number) => {
+    let t = x;
+    for (let i = 0; i < 8; i++) {
+      const error = sampleX(t) - x;
+      if (Math.abs(error) < 1e-6) return t;
+      const derivative = sampleDerivativeX(t);
+      if (Math.abs(derivative) < 1e-6) break;
+      t -= error / derivative;
+    }
+
+    let low = 0;
+    let high = 1;
+    t = x;
+    while (low < high) {
+      const value = sampleX(t);
+      if (Math.abs(value - x) < 1e-6) return t;
+      if (x > value) low = t;
+      else high = t;
+      if (high - low < 1e-7) break;
+      t = (low + high) / 2;
+    }
+    return t;
+  };
+
+  return (x) => sampleY(solveX(x));
+}
+
+// Piecewise linear curve through the stops, flat before the first and after
+// the last one
+export function multiStop(stops: CurveStop[]): EasingFunction {
+  const sorted = [...stops].sort((a, b) => a.x - b.x);
+  if (sorted.length === 0) return EASINGS.linear;
+
+  return (x) => {
+    if (x <= sorted[0].x) return sorted[0].y;
+    for (let i = 1; i < sorted.length; i++) {
+      const to = sorted[i];
+      if (x <= to.x) {
+        const from = sorted[i - 1];
+        const span = to.x - from.x;
+        return span > 0
+          ? from.y + ((x - from.x) / span) * (to.y - from.y)
+          : to.y;
+      }
+    }
+    return sorted[sorted.length - 1].y;
+  };
+}
+
+// Resolve the easing selected in a config to a function
+export function getEasingFunction(config: {
+  easing: string;
+  easingBezier?: BezierPoints;
+  easingStops?: CurveStop[];
+}): EasingFunction {
+  if (config.easing === "cubicBezier") {
+    return cubicBezier(config.easingBezier ?? DEFAULT_BEZIER);
+  }
+  if (config.easing === "multiStop") {
+    return multiStop(config.easingStops ?? DEFAULT_CURVE_STOPS);
+  }
+  return EASINGS[config.easing] ?? EASINGS.linear;
+}
+
+// Sample an easing into a lookup table over 0–1, clamped so overshooting
+// curves can't ask for more than the max kernel size
+export function bakeEasingLut(
+  easing: EasingFunction,
+  size = EASING_LUT_SIZE
+): Float32Array {
+  const lut = new Float32Array(size);
+  for (let i = 0; i < size; i++) {
+    lut[i] = Math.min(1, Math.max(0, easing(i / (size - 1))));
+  }
+  return lut;
+}
@@ -0,0 +1,34 @@
+export type ImageWorkerErrorCode =
+  | "webgl-unavailable"
+  | "context-lost"
+  | "invalid-config"
+  | "render-failed"
+  | "encode-failed"
+  | "worker-failed";
+
+// Error thrown in the image worker and rethrown by useImageWorker on the main
+// thread. Only code and message survive the trip through postMessage.
+export class ImageWorkerError extends Error {
+  code: ImageWorkerErrorCode;
+
+  constructor(code: ImageWorkerErrorCode, message: string) {
+    super(message);
+    this.name = "ImageWorkerError";
+    this.code = code;
+  }
+}
+
+const ERROR_MESSAGES: Record<ImageWorkerErrorCode, string> = {
+  "webgl-unavailable": "WebGL2 is not available, the blur can't be rendered.",
+  "context-lost": "The graphics context was lost. Change a setting to retry.",
+  "invalid-config": "The blur settings are invalid.",
+  "render-failed": "Rendering the blur failed.",
+  "encode-failed": "Encoding the image failed.",
+  "worker-failed": "The image worker stopped working. Reload the page.",
+};
+
+// Short text for showing an error to the user
+export function getErrorMessage(err: unknown) {
+  if (err instanceof ImageWorkerError) return ERROR_MESSAGES[err.code];
+  return err instanceof Error ? err.message : String(err);
+}
@@ -0,0 +1,200 @@
+import { BlurConfig, MAX_SHADER_KERNEL_SIZE } from "./blurConfig";
+import { getGradientDirection, getGradientLength } from "./gradient";
+import { getFocusUnit } from "./mask";
+
+export type ExportMode = "full" | "viewport";
+
+export type ExportFormat = "png" | "jpeg" | "webp";
+
+export interface ExportOptions {
+  format: ExportFormat;
+  // Encoder quality between 0 and 1, ignored by lossless formats
+  quality: number;
+}
+
+export const EXPORT_FORMATS: Record<
+  ExportFormat,
+  { label: string; mimeType: string; extension: string; lossy: boolean }
+> = {
+  png: { label: "PNG", mimeType: "image/png", extension: "png", lossy: false },
+  jpeg: {
+    label: "JPEG",
+    mimeType: "image/jpeg",
+    extension: "jpg",
+    lossy: true,
+  },
+  webp: {
+    label: "WebP",
+    mimeType: "image/webp",
+    extension: "webp",
+    lossy: true,
+  },
+};
+
+// Tokens: {name} source file name without extension, {width}, {height},
+// {format} and {timestamp}
+export const DEFAULT_FILENAME_TEMPLATE = "{name}-blur";
+
+// Rectangle (in CSS pixels) the image occupies when cover-fitted to the view
+export interface CoverFit {
+  offsetX: number;
+  offsetY: number;
+  drawWidth: number;
+  drawHeight: number;
+}
+
+// Calculate dimensions to cover the entire view while maintaining aspect ratio
+export function getCoverFit(
+  imageWidth: number,
+  imageHeight: number,
+  viewWidth: number,
+  viewHeight: number
+): CoverFit {
+  const imgRatio = imageWidth / imageHeight;
+  const viewRatio = viewWidth / viewHeight;
+
+  if (viewRatio > imgRatio) {
+    // View is wider than the image aspect ratio
+    const drawHeight = viewWidth / imgRatio;
+    return {
+      offsetX: 0,
+      offsetY: (viewHeight - drawHeight) / 2,
+      drawWidth: viewWidth,
+      drawHeight,
+    };
+  }
+
+  // View is taller than the image aspect ratio
+  const drawWidth = viewHeight * imgRatio;
+  return {
+    offsetX: (viewWidth - drawWidth) / 2,
+    offsetY: 0,
+    drawWidth,
+    drawHeight: viewHeight,
+  };
+}
+
+// Translate a config tuned on the viewport into the coordinate space of the
+// source image, so the full-resolution export lines up with the preview.
+// fit can be any rectangle of the image, the zoomed view maps the settings
+// onto just the part it renders.
+export function mapBlurConfigToImage(
+  config: BlurConfig,
+  fit: CoverFit,
+  viewSize: { width: number; height: number },
+  pixelRatio: number,
+  imageWidth: number
+): BlurConfig {
+  // The preview kernel is measured in device pixels of the drawn image, and
+  // cover-fit scales both axes alike
+  const scale = imageWidth / (fit.drawWidth * pixelRatio);
+  const maxKernelSize = Math.min(
+    MAX_SHADER_KERNEL_SIZE,
+    Math.max(1, Math.round(config.maxKernelSize * scale))
+  );
+
+  // Custom masks are sampled in image space already
+  if (config.maskMode === "custom") {
+    return { ...config, maxKernelSize };
+  }
+
+  if (config.maskMode !== "linear") {
+    // Focus distances are relative to the frame, so rescale them along with
+    // moving the center into image coordinates
+    const unitScale =
+      getFocusUnit(
+        config.maskMode,
+        viewSize.width,
+        viewSize.height,
+        config.angle
+      ) /
+      getFocusUnit(
+        config.maskMode,
+        fit.drawWidth,
+        fit.drawHeight,
+        config.angle
+      );
+
+    return {
+      ...config,
+      focusX: (config.focusX * viewSize.width - fit.offsetX) / fit.drawWidth,
+      focusY: (config.focusY * viewSize.height - fit.offsetY) / fit.drawHeight,
+      startPoint: config.startPoint * unitScale,
+      endPoint: config.endPoint * unitScale,
+      maxKernelSize,
+    };
+  }
+
+  const direction = getGradientDirection(config.angle);
+  const viewLength = getGradientLength(
+    viewSize.width,
+    viewSize.height,
+    direction
+  );
+  const drawLength = getGradientLength(
+    fit.drawWidth,
+    fit.drawHeight,
+    direction
+  );
+  // How far the image center sits from the view center along the gradient
+  const centerShift =
+    (fit.offsetX + fit.drawWidth / 2 - viewSize.width / 2) * direction[0] +
+    (fit.offsetY + fit.drawHeight / 2 - viewSize.height / 2) * direction[1];
+  const toImagePosition = (point: number) =>
+    0.5 + ((point - 0.5) * viewLength - centerShift) / drawLength;
+
+  return {
+    ...config,
+    startPoint: toImagePosition(config.startPoint),
+    endPoint: toImagePosition(config.endPoint),
+    maxKernelSize,
+  };
+}
+
+// Trigger a browser download for a data or object URL
+export function downloadUrl(url: string, filename: string) {
+  const link = document.createElement("a");
+  link.download = filename;
+  link.href = url;
+
+  // Append to the document, click it, and remove it
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+}
+
+// Strip the directory and extension from a file name or URL
+export function getBaseName(fileName: string) {
+  const name = fileName.split(/[\\/]/).pop() ?? fileName;
+  const dotIndex = name.lastIndexOf(".");
+  return dotIndex > 0 ? name.slice(0, dotIndex) : name;
+}
+
+// Expand a filename template and append the extension for the format
+export function formatFilename(
+  template: string,
+  values: { name: string; width: number; height: number; format: ExportFormat }
+) {
+  const tokens: Record<string, string> = {
+    name: values.name,
+    width: String(values.width),
+    height: String(values.height),
+    format: values.format,
+    timestamp: String(new Date().getTime()),
+  };
+
+  const baseName = template
+    .replace(/\{(\w+)\}/g, (match, token: string) => tokens[token] ?? match)
+    // Characters that are not allowed in file names on common platforms
+    .replace(/[\\/:*?"<>|]/g, "-")
+    .trim();
+
+  return `${baseName || "image"}.${EXPORT_FORMATS[values.format].extension}`;
+}
+
+// Human readable byte count, e.g. "1.4 MB"
+export function formatFileSize(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
@@ -0,0 +1,823 @@
+// ***** OPTIMIZED GPU BLUR (WEBGL2) IMPLEMENTATION *****
+// Uses OffscreenCanvas + WebGL2 to apply a dynamic blur based on your
+// config. Works on the main thread and in workers alike, the app runs it in
+// worker.ts. Real-time speeds, no more CPU loop cringe.
+
+import { BlurConfig, BlurMask, hasGlassEffects, isBlurActive, parseHexColor } from './blurConfig';
+import { bakeEasingLut, getEasingFunction } from './easing';
+import { ImageWorkerError } from './errors';
+import { getGradientDirection } from './gradient';
+import {
+  DOWNSAMPLE_TAPS,
+  FilterTap,
+  getFilterWeight,
+  getPyramidLevelCount,
+  KERNEL_SIGMA_RATIOS,
+  PYRAMID_LEVEL_SIGMA,
+  TENT_TAPS,
+} from './pyramid';
+
+// For compatibility with the old API
+const blurTypeMap: Record<string, number> = {
+  linear: 0,
+  gaussian: 1,
+};
+// Radial is just an elliptical focus with an aspect of 1
+const maskModeMap: Record<string, number> = {
+  linear: 0,
+  radial: 1,
+  elliptical: 1,
+  tiltShift: 2,
+  custom: 3,
+};
+
+// Vertex shader (standard fullscreen quad)
+const vertexShaderSource = `#version 300 es
+precision highp float;
+in vec2 a_position;
+in vec2 a_texCoord;
+out vec2 v_texCoord;
+void main(){
+  v_texCoord = a_texCoord;
+  gl_Position = vec4(a_position, 0.0, 1.0);
+}`;
+
+// Shared by both blur backends: the uniforms and functions that decide how
+// strongly each fragment gets blurred. It computes a dynamic kernel size
+// (per-fragment) based on the fragment's position in the blur mask (linear
+// ramp, elliptical focus, tilt-shift band or a custom mask texture) and config.
+// Expects v_texCoord to be declared before it.
+const blurStrengthSource = `
+uniform vec2 u_resolution;
+uniform vec2 u_gradientDir; // unit vector the blur grows towards, y down
+uniform float u_startPoint;
+uniform float u_endPoint;
+uniform int u_maxKernelSize;
+uniform sampler2D u_easingLut; // easing curve baked over 0–1, in the red channel
+uniform int u_blurType;  // 0: linear, 1: gaussian
+uniform int u_maskMode;  // 0: linear, 1: radial/elliptical, 2: tilt-shift, 3: custom
+uniform sampler2D u_mask; // custom mask, alpha = blur strength
+uniform vec2 u_focusCenter; // in texture coordinates
+uniform float u_focusAspect; // ellipse width / height
+
+// Any curve works without touching the shader, it's all in the lookup table
+float easingFunc(float x) {
+  float size = float(textureSize(u_easingLut, 0).x);
+  float u = (clamp(x, 0.0, 1.0) * (size - 1.0) + 0.5) / size;
+  return texture(u_easingLut, vec2(u, 0.5)).r;
+}
+
+// Position along the gradient line: 0 at the corner where it starts, 1 at the
+// opposite one. Measured in pixels so angles stay true on non-square images.
+float gradientPosition() {
+  vec2 p = (v_texCoord - 0.5) * u_resolution;
+  float len = abs(u_resolution.x * u_gradientDir.x) + abs(u_resolution.y * u_gradientDir.y);
+  return dot(p, u_gradientDir) / len + 0.5;
+}
+
+// Distance from the focus, 0 at the center and 1 at the half diagonal (ellipse)
+// or the image edge (tilt-shift band) when the focus is centered.
+float focusDistance() {
+  vec2 p = (v_texCoord - u_focusCenter) * u_resolution;
+  if(u_maskMode == 2) {
+    float len = abs(u_resolution.x * u_gradientDir.x) + abs(u_resolution.y * u_gradientDir.y);
+    return abs(dot(p, u_gradientDir)) / (0.5 * len);
+  }
+  // Rotate into the ellipse frame, its major axis is perpendicular to the gradient
+  vec2 q = vec2(dot(p, vec2(u_gradientDir.y, -u_gradientDir.x)), dot(p, u_gradientDir));
+  return length(vec2(q.x, q.y * u_focusAspect)) / (0.5 * length(u_resolution));
+}
+
+float kernelForProgress(float progress) {
+  float easedProgress = easingFunc(progress);
+  float kernelSize = floor(easedProgress * float(u_maxKernelSize));
+  // Ensure odd kernel size:
+  if(mod(kernelSize, 2.0) < 0.5){
+    kernelSize = kernelSize + 1.0;
+  }
+  return kernelSize;
+}
+
+// Kernel size in pixels for the current fragment, below 1 means no blur
+float blurKernelSize() {
+  if(u_maskMode == 3){
+    // The mask replaces the ramp entirely
+    return kernelForProgress(texture(u_mask, v_texCoord).a);
+  }
+  float position = (u_maskMode == 0) ? gradientPosition() : focusDistance();
+  if(position < u_startPoint){
+    return 0.0;
+  } else if(position >= u_endPoint){
+    // Also a zero-length ramp, a hard step instead of 0 / 0
+    return float(u_maxKernelSize);
+  }
+  float rangeProgress = (position - u_startPoint) / (u_endPoint - u_startPoint);
+  return kernelForProgress(rangeProgress);
+}
+
+// Eased blur strength 0–1 for the current fragment, the glass pass follows it
+float blurAmount() {
+  if(u_maskMode == 3){
+    return easingFunc(texture(u_mask, v_texCoord).a);
+  }
+  float position = (u_maskMode == 0) ? gradientPosition() : focusDistance();
+  if(position < u_startPoint){
+    return 0.0;
+  } else if(position >= u_endPoint){
+    return 1.0;
+  }
+  return easingFunc((position - u_startPoint) / (u_endPoint - u_startPoint));
+}
+`;
+
+// Fragment shader performing separable blur (direction controlled via uniform)
+const fragmentShaderSource = `#version 300 es
+precision highp float;
+in vec2 v_texCoord;
+out vec4 outColor;
+uniform sampler2D u_image;
+uniform vec2 u_direction; // (1,0)=horizontal, (0,1)=vertical
+${blurStrengthSource}
+// Must be >= (u_maxKernelSize-1)/2; parseBlurConfig clamps maxKernelSize to MAX_SHADER_KERNEL_SIZE
+const int MAX_RADIUS = 1000;
+
+void main(){
+  float kernelSize = blurKernelSize();
+  // If no blur, just pass through:
+  if(kernelSize < 1.0){
+    outColor = texture(u_image, v_texCoord);
+    return;
+  }
+  float radius = (kernelSize - 1.0) / 2.0;
+  vec4 color = vec4(0.0);
+  float weightSum = 0.0;
+  float sigma = kernelSize / 6.0;
+  int effectiveRadius = int(radius);
+  for(int i = -MAX_RADIUS; i <= MAX_RADIUS; i++){
+    if(i < -effectiveRadius || i > effectiveRadius) continue;
+    float offset = float(i);
+    float weight = (u_blurType == 0)
+                   ? (1.0 / kernelSize)
+                   : exp(-0.5 * (offset / sigma) * (offset / sigma));
+    vec2 uvOffset = v_texCoord + u_direction * (offset / u_resolution);
+    color += texture(u_image, uvOffset) * weight;
+    weightSum += weight;
+  }
+  outColor = color / weightSum;
+}`;
+
+// ***** PYRAMID BACKEND *****
+// Instead of looping over every kernel tap, the source is downsampled into
+// the mip levels of one texture with a dual-Kawase filter. Each level is
+// roughly twice as blurred as the previous one, so a fragment picks the level
+// matching its blur strength and trilinear filtering interpolates between
+// neighbouring levels. Cost per pixel is constant regardless of kernel size.
+
+// GLSL float literal, integers need the decimal point
+function glslFloat(value: number) {
+  return Number.isInteger(value) ? value.toFixed(1) : String(value);
+}
+
+// Weighted sum of the taps of a filter from lib/pyramid.ts, normalized
+function filterSource(taps: readonly FilterTap[], texel: string, lod: string) {
+  const lines = taps.map(([dx, dy, weight]) =>
+    `  sum += textureLod(u_image, v_texCoord + vec2(${glslFloat(dx)}, ${glslFloat(dy)}) * ${texel}, ${lod}) * ${glslFloat(weight)};`);
+  return `  vec4 sum = vec4(0.0);\n${lines.join('\n')}\n  sum /= ${glslFloat(getFilterWeight(taps))};`;
+}
+
+// Downsample one mip level into the next (dual-Kawase down filter)
+const downsampleShaderSource = `#version 300 es
+precision highp float;
+in vec2 v_texCoord;
+out vec4 outColor;
+uniform sampler2D u_image; // base level set to the level being read
+uniform vec2 u_texelSize;  // of the level being read
+void main(){
+${filterSource(DOWNSAMPLE_TAPS, 'u_texelSize', '0.0')}
+  outColor = sum;
+}`;
+
+// Pick the pyramid level per fragment from the same kernel size the exact
+// path would use
+const pyramidShaderSource = `#version 300 es
+precision highp float;
+in vec2 v_texCoord;
+out vec4 outColor;
+uniform sampler2D u_image; // mipmapped pyramid, level 0 is the source
+uniform float u_maxLod;
+${blurStrengthSource}
+// Constants and level selection shared with getPyramidLod() in pyramid.ts
+const float LEVEL_SIGMA = ${glslFloat(PYRAMID_LEVEL_SIGMA)};
+
+// Tent filter, hides the blockiness of the coarse levels
+vec4 sampleTent(float lod) {
+  vec2 texel = 1.0 / vec2(textureSize(u_image, int(floor(lod))));
+${filterSource(TENT_TAPS, 'texel', 'lod')}
+  return sum;
+}
+
+void main(){
+  float kernelSize = blurKernelSize();
+  if(kernelSize <= 1.0){
+    outColor = textureLod(u_image, v_texCoord, 0.0);
+    return;
+  }
+  // Match the spread of the exact kernels: box for linear, gaussian otherwise
+  float sigma = kernelSize * ((u_blurType == 0) ? ${glslFloat(KERNEL_SIGMA_RATIOS.linear)} : ${glslFloat(KERNEL_SIGMA_RATIOS.gaussian)});
+  float lod = clamp(log2(sigma / LEVEL_SIGMA), 0.0, u_maxLod);
+  outColor = sampleTent(lod);
+}`;
+
+// ***** FROSTED GLASS PASS *****
+// Runs on the blurred result: saturation, brightness, a tint and grain, each
+// faded in by the same ramp as the blur. glassCPU in cpuBlur.ts mirrors it.
+const glassShaderSource = `#version 300 es
+precision highp float;
+in vec2 v_texCoord;
+out vec4 outColor;
+uniform sampler2D u_image;
+uniform vec3 u_tintColor;
+uniform float u_tintOpacity;
+uniform float u_saturation;
+uniform float u_brightness;
+uniform float u_noise;
+${blurStrengthSource}
+// Integer hash of the pixel, the CPU path computes the same grain
+float pixelNoise(uvec2 p) {
+  uint h = (p.x * 73856093u) ^ (p.y * 19349663u);
+  h ^= h >> 16u;
+  h *= 0x7feb352du;
+  h ^= h >> 15u;
+  h *= 0x846ca68bu;
+  h ^= h >> 16u;
+  return float(h) / 4294967295.0;
+}
+
+void main(){
+  vec4 source = texture(u_image, v_texCoord);
+  float amount = blurAmount();
+  vec3 color = source.rgb;
+  float luma = dot(color, vec3(0.2126, 0.7152, 0.0722));
+  color = mix(vec3(luma), color, mix(1.0, u_saturation, amount));
+  color *= mix(1.0, u_brightness, amount);
+  color = mix(color, u_tintColor, u_tintOpacity * amount);
+  // Grain of up to a tenth of the range either way at full strength
+  color += (pixelNoise(uvec2(gl_FragCoord.xy)) - 0.5) * 0.2 * u_noise * amount;
+  outColor = vec4(clamp(color, 0.0, 1.0), source.a);
+}`;
+
+// Utility: Compile a shader.
+function compileShader(gl: WebGL2RenderingContext, source: string, type: number): WebGLShader {
+  const shader = gl.createShader(type)!;
+  gl.shaderSource(shader, source);
+  gl.compileShader(shader);
+  if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+    const log = gl.getShaderInfoLog(shader);
+    gl.deleteShader(shader);
+    throw new Error("Shader compile error: " + log);
+  }
+  return shader;
+}
+
+// Utility: Create shader program.
+function createProgram(gl: WebGL2RenderingContext, vsSource: string, fsSource: string): WebGLProgram {
+  const vs = compileShader(gl, vsSource, gl.VERTEX_SHADER);
+  const fs = compileShader(gl, fsSource, gl.FRAGMENT_SHADER);
+  const program = gl.createProgram()!;
+  gl.attachShader(program, vs);
+  gl.attachShader(program, fs);
+  // Pin the quad attributes so one VAO works with every program
+  gl.bindAttribLocation(program, 0, "a_position");
+  gl.bindAttribLocation(program, 1, "a_texCoord");
+  gl.linkProgram(program);
+  if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+    const log = gl.getProgramInfoLog(program);
+    gl.deleteProgram(program);
+    throw new Error("Program link error: " + log);
+  }
+  return program;
+}
+
+// Set up a fullscreen quad.
+function setupQuad(gl: WebGL2RenderingContext) {
+  // Locations are pinned in createProgram
+  const posLoc = 0;
+  const texLoc = 1;
+
+  // Two triangles covering the viewport
+  const vertices = new Float32Array([
+    -1, -1,  0, 0,
+     1, -1,  1, 0,
+    -1,  1,  0, 1,
+    -1,  1,  0, 1,
+     1, -1,  1, 0,
+     1,  1,  1, 1,
+  ]);
+  const vao = gl.createVertexArray()!;
+  gl.bindVertexArray(vao);
+  const buffer = gl.createBuffer()!;
+  gl.bindBuffer(gl.ARRAY_BUFFER, buffer);
+  gl.bufferData(gl.ARRAY_BUFFER, vertices, gl.STATIC_DRAW);
+  gl.enableVertexAttribArray(posLoc);
+  gl.vertexAttribPointer(posLoc, 2, gl.FLOAT, false, 16, 0);
+  gl.enableVertexAttribArray(texLoc);
+  gl.vertexAttribPointer(texLoc, 2, gl.FLOAT, false, 16, 8);
+  gl.bindVertexArray(null);
+  return vao;
+}
+
+// Create a texture from image data.
+function createTexture(gl: WebGL2RenderingContext, width: number, height: number, data: Uint8ClampedArray): WebGLTexture {
+  const texture = gl.createTexture()!;
+  gl.bindTexture(gl.TEXTURE_2D, texture);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+  gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, width, height, 0,
+                gl.RGBA, gl.UNSIGNED_BYTE, data);
+  return texture;
+}
+
+// Create a single-row float texture holding a baked easing curve.
+function createEasingTexture(gl: WebGL2RenderingContext, lut: Float32Array): WebGLTexture {
+  const texture = gl.createTexture()!;
+  gl.bindTexture(gl.TEXTURE_2D, texture);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+  // R16F is filterable in core WebGL2, unlike R32F
+  gl.texImage2D(gl.TEXTURE_2D, 0, gl.R16F, lut.length, 1, 0,
+                gl.RED, gl.FLOAT, lut);
+  return texture;
+}
+
+// Create an empty texture (for framebuffer rendering).
+function createEmptyTexture(gl: WebGL2RenderingContext, width: number, height: number): WebGLTexture {
+  const texture = gl.createTexture()!;
+  gl.bindTexture(gl.TEXTURE_2D, texture);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+  gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, width, height, 0,
+                gl.RGBA, gl.UNSIGNED_BYTE, null);
+  return texture;
+}
+
+// A linked program with all of its uniform locations looked up once
+interface ProgramInfo {
+  program: WebGLProgram;
+  uniforms: Record<string, WebGLUniformLocation | null>;
+}
+
+function createProgramInfo(gl: WebGL2RenderingContext, fsSource: string): ProgramInfo {
+  const program = createProgram(gl, vertexShaderSource, fsSource);
+  const uniforms: ProgramInfo['uniforms'] = {};
+  const count: number = gl.getProgramParameter(program, gl.ACTIVE_UNIFORMS);
+  for (let i = 0; i < count; i++) {
+    const { name } = gl.getActiveUniform(program, i)!;
+    uniforms[name] = gl.getUniformLocation(program, name);
+  }
+  return { program, uniforms };
+}
+
+// Everything a renderer keeps on the GPU between renders. Dragging a slider
+// used to recreate the context, programs and textures on every frame.
+interface GLState {
+  canvas: OffscreenCanvas;
+  gl: WebGL2RenderingContext;
+  vao: WebGLVertexArrayObject;
+  fb: WebGLFramebuffer;
+  blurProgram: ProgramInfo;
+  // Compiled on first use, most sessions never switch to the pyramid
+  downsampleProgram: ProgramInfo | null;
+  pyramidProgram: ProgramInfo | null;
+  glassProgram: ProgramInfo | null;
+  maskTex: WebGLTexture;
+  // Identity of the mask currently uploaded, null if it can't be reused
+  maskKey: string | null;
+  easingTex: WebGLTexture;
+  easingKey: string | null;
+  // Size of the textures below, they are only reallocated when it changes
+  width: number;
+  height: number;
+  sourceTex: WebGLTexture;
+  tempTex: WebGLTexture;
+  finalTex: WebGLTexture;
+  pyramidTex: WebGLTexture | null;
+  pyramidLevels: number;
+  // Identity of the image currently uploaded, null if it can't be reused
+  sourceKey: string | null;
+  pyramidKey: string | null;
+}
+
+function createGLState(): GLState {
+  // We render into our own framebuffer, the canvas only gets sized up when a
+  // result is blitted into it. Blits can't target a multisampled canvas.
+  const canvas = new OffscreenCanvas(1, 1);
+  const gl = canvas.getContext("webgl2", { antialias: false }) as WebGL2RenderingContext;
+  if (!gl) {
+    throw new ImageWorkerError('webgl-unavailable', "WebGL2 not supported in this environment.");
+  }
+
+  const blurProgram = createProgramInfo(gl, fragmentShaderSource);
+  return {
+    canvas,
+    gl,
+    vao: setupQuad(gl),
+    fb: gl.createFramebuffer()!,
+    blurProgram,
+    downsampleProgram: null,
+    pyramidProgram: null,
+    glassProgram: null,
+    maskTex: createTexture(gl, 1, 1, new Uint8ClampedArray(4)),
+    maskKey: null,
+    easingTex: createEasingTexture(gl, new Float32Array(1)),
+    easingKey: null,
+    width: 1,
+    height: 1,
+    sourceTex: createEmptyTexture(gl, 1, 1),
+    tempTex: createEmptyTexture(gl, 1, 1),
+    finalTex: createEmptyTexture(gl, 1, 1),
+    pyramidTex: null,
+    pyramidLevels: 0,
+    sourceKey: null,
+    pyramidKey: null,
+  };
+}
+
+// Reallocate the size dependent textures. Cached sources are gone afterwards.
+function resizeRenderer(r: GLState, width: number, height: number) {
+  if (r.width === width && r.height === height) return;
+  const { gl } = r;
+  [r.sourceTex, r.tempTex, r.finalTex].forEach((texture) => {
+    gl.bindTexture(gl.TEXTURE_2D, texture);
+    gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, width, height, 0,
+                  gl.RGBA, gl.UNSIGNED_BYTE, null);
+  });
+  // The pyramid uses immutable storage, so it has to be recreated lazily
+  if (r.pyramidTex) gl.deleteTexture(r.pyramidTex);
+  r.pyramidTex = null;
+  r.width = width;
+  r.height = height;
+  r.sourceKey = null;
+  r.pyramidKey = null;
+}
+
+// Key of the 1×1 placeholder, so renders without a mask upload it only once
+const EMPTY_MASK_KEY = '\0empty';
+
+// Only upload the mask when a different one comes in, like the source
+function uploadMask(r: GLState, mask?: BlurMask, maskKey?: string) {
+  const key = mask ? maskKey ?? null : EMPTY_MASK_KEY;
+  if (key !== null && key === r.maskKey) return;
+  const { gl } = r;
+  gl.bindTexture(gl.TEXTURE_2D, r.maskTex);
+  r.maskKey = key;
+  // Without a mask (or a painted one yet) nothing gets blurred
+  if (mask) {
+    gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, mask.width, mask.height, 0,
+                  gl.RGBA, gl.UNSIGNED_BYTE, mask.data);
+  } else {
+    gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, 1, 1, 0,
+                  gl.RGBA, gl.UNSIGNED_BYTE, new Uint8ClampedArray(4));
+  }
+}
+
+// Only re-bake the easing curve when it actually changed
+function uploadEasing(r: GLState, config: BlurConfig) {
+  const key = JSON.stringify([config.easing, config.easingBezier, config.easingStops]);
+  if (key === r.easingKey) return;
+  const { gl } = r;
+  const lut = bakeEasingLut(getEasingFunction(config));
+  gl.bindTexture(gl.TEXTURE_2D, r.easingTex);
+  gl.texImage2D(gl.TEXTURE_2D, 0, gl.R16F, lut.length, 1, 0,
+                gl.RED, gl.FLOAT, lut);
+  r.easingKey = key;
+}
+
+// Set the uniforms shared by both backends (see blurStrengthSource).
+function setBlurUniforms(
+  gl: WebGL2RenderingContext,
+  { uniforms }: ProgramInfo,
+  width: number,
+  height: number,
+  config: BlurConfig
+) {
+  gl.uniform2f(uniforms.u_resolution, width, height);
+  gl.uniform2fv(uniforms.u_gradientDir, getGradientDirection(config.angle));
+  gl.uniform1f(uniforms.u_startPoint, config.startPoint);
+  gl.uniform1f(uniforms.u_endPoint, config.endPoint);
+  gl.uniform1i(uniforms.u_maxKernelSize, config.maxKernelSize);
+  gl.uniform1i(uniforms.u_blurType, blurTypeMap[config.blurType]);
+  gl.uniform1i(uniforms.u_maskMode, maskModeMap[config.maskMode]);
+  gl.uniform2f(uniforms.u_focusCenter, config.focusX, config.focusY);
+  gl.uniform1f(uniforms.u_focusAspect, config.maskMode === 'elliptical' ? config.focusAspect : 1);
+  // The mask and easing textures stay bound to units 1 and 2 for every pass
+  gl.uniform1i(uniforms.u_mask, 1);
+  gl.uniform1i(uniforms.u_easingLut, 2);
+}
+
+// Render one pass (either horizontal or vertical).
+function renderPass(
+  r: GLState,
+  inputTex: WebGLTexture,
+  direction: [number, number],
+  config: BlurConfig
+) {
+  const { gl, blurProgram } = r;
+  gl.useProgram(blurProgram.program);
+  gl.bindVertexArray(r.vao);
+
+  // Set uniforms:
+  setBlurUniforms(gl, blurProgram, r.width, r.height, config);
+  gl.uniform2f(blurProgram.uniforms.u_direction, direction[0], direction[1]);
+
+  // Bind input texture to unit 0.
+  gl.activeTexture(gl.TEXTURE0);
+  gl.bindTexture(gl.TEXTURE_2D, inputTex);
+  gl.uniform1i(blurProgram.uniforms.u_image, 0);
+
+  gl.drawArrays(gl.TRIANGLES, 0, 6);
+  gl.bindVertexArray(null);
+}
+
+// Pixels to blur: raw RGBA, or anything WebGL can upload straight from the
+// GPU, like an ImageBitmap, a VideoFrame or another canvas
+export type BlurSource = Uint8ClampedArray | TexImageSource;
+
+// Upload the source into level 0 of the texture bound to TEXTURE_2D
+function uploadSource(gl: WebGL2RenderingContext, source: BlurSource, width: number, height: number) {
+  // The same call, but TypeScript has to pick the overload
+  if (ArrayBuffer.isView(source)) {
+    gl.texSubImage2D(gl.TEXTURE_2D, 0, 0, 0, width, height,
+                     gl.RGBA, gl.UNSIGNED_BYTE, source);
+  } else {
+    gl.texSubImage2D(gl.TEXTURE_2D, 0, 0, 0, width, height,
+                     gl.RGBA, gl.UNSIGNED_BYTE, source);
+  }
+}
+
+// Fill the pyramid with the image: level 0 is uploaded, every further level is
+// filtered from the one above it. Base and max level are narrowed to the level
+// being read, so the level being written is never sampled at the same time.
+function renderPyramid(r: GLState, source: BlurSource) {
+  const { gl, width, height } = r;
+  const program = (r.downsampleProgram ??= createProgramInfo(gl, downsampleShaderSource));
+
+  if (!r.pyramidTex) {
+    r.pyramidLevels = getPyramidLevelCount(width, height);
+    r.pyramidTex = gl.createTexture()!;
+    gl.bindTexture(gl.TEXTURE_2D, r.pyramidTex);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR_MIPMAP_LINEAR);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+    gl.texStorage2D(gl.TEXTURE_2D, r.pyramidLevels, gl.RGBA8, width, height);
+  }
+
+  gl.activeTexture(gl.TEXTURE0);
+  gl.bindTexture(gl.TEXTURE_2D, r.pyramidTex);
+  uploadSource(gl, source, width, height);
+
+  gl.useProgram(program.program);
+  gl.bindVertexArray(r.vao);
+  gl.bindFramebuffer(gl.FRAMEBUFFER, r.fb);
+  gl.uniform1i(program.uniforms.u_image, 0);
+
+  for (let level = 1; level < r.pyramidLevels; level++) {
+    const sourceWidth = Math.max(1, width >> (level - 1));
+    const sourceHeight = Math.max(1, height >> (level - 1));
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_BASE_LEVEL, level - 1);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAX_LEVEL, level - 1);
+    gl.framebufferTexture2D(gl.FRAMEBUFFER, gl.COLOR_ATTACHMENT0, gl.TEXTURE_2D, r.pyramidTex, level);
+    gl.viewport(0, 0, Math.max(1, width >> level), Math.max(1, height >> level));
+    gl.uniform2f(program.uniforms.u_texelSize, 1 / sourceWidth, 1 / sourceHeight);
+    gl.drawArrays(gl.TRIANGLES, 0, 6);
+  }
+
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_BASE_LEVEL, 0);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAX_LEVEL, r.pyramidLevels - 1);
+  gl.viewport(0, 0, width, height);
+  gl.bindVertexArray(null);
+}
+
+// Composite the pyramid into the output, picking a level per fragment.
+function renderPyramidBlur(r: GLState, config: BlurConfig) {
+  const { gl } = r;
+  const program = (r.pyramidProgram ??= createProgramInfo(gl, pyramidShaderSource));
+  gl.useProgram(program.program);
+  gl.bindVertexArray(r.vao);
+
+  setBlurUniforms(gl, program, r.width, r.height, config);
+  gl.uniform1f(program.uniforms.u_maxLod, r.pyramidLevels - 1);
+
+  gl.activeTexture(gl.TEXTURE0);
+  gl.bindTexture(gl.TEXTURE_2D, r.pyramidTex);
+  gl.uniform1i(program.uniforms.u_image, 0);
+
+  gl.drawArrays(gl.TRIANGLES, 0, 6);
+  gl.bindVertexArray(null);
+}
+
+// Frosted glass pass from finalTex into tempTex, which is free by now
+function renderGlass(r: GLState, config: BlurConfig) {
+  const { gl } = r;
+  const program = (r.glassProgram ??= createProgramInfo(gl, glassShaderSource));
+  gl.framebufferTexture2D(gl.FRAMEBUFFER, gl.COLOR_ATTACHMENT0, gl.TEXTURE_2D, r.tempTex, 0);
+  gl.clear(gl.COLOR_BUFFER_BIT);
+  gl.useProgram(program.program);
+  gl.bindVertexArray(r.vao);
+
+  setBlurUniforms(gl, program, r.width, r.height, config);
+  gl.uniform3fv(program.uniforms.u_tintColor, parseHexColor(config.tintColor));
+  gl.uniform1f(program.uniforms.u_tintOpacity, config.tintOpacity);
+  gl.uniform1f(program.uniforms.u_saturation, config.saturation);
+  gl.uniform1f(program.uniforms.u_brightness, config.brightness);
+  gl.uniform1f(program.uniforms.u_noise, config.noise);
+
+  gl.activeTexture(gl.TEXTURE0);
+  gl.bindTexture(gl.TEXTURE_2D, r.finalTex);
+  gl.uniform1i(program.uniforms.u_image, 0);
+
+  gl.drawArrays(gl.TRIANGLES, 0, 6);
+  gl.bindVertexArray(null);
+}
+
+// Main GPU blur function, leaves the result attached to the framebuffer.
+// Passing a sourceKey lets repeated renders of the same image skip the
+// texture upload, a maskKey does the same for the mask.
+function drawBlur(
+  r: GLState,
+  source: BlurSource,
+  width: number,
+  height: number,
+  config: BlurConfig,
+  mask?: BlurMask,
+  sourceKey?: string,
+  maskKey?: string
+) {
+  const { gl } = r;
+  resizeRenderer(r, width, height);
+  gl.viewport(0, 0, width, height);
+
+  uploadMask(r, mask, maskKey);
+  uploadEasing(r, config);
+  gl.activeTexture(gl.TEXTURE1);
+  gl.bindTexture(gl.TEXTURE_2D, r.maskTex);
+  gl.activeTexture(gl.TEXTURE2);
+  gl.bindTexture(gl.TEXTURE_2D, r.easingTex);
+
+  gl.bindFramebuffer(gl.FRAMEBUFFER, r.fb);
+  gl.clearColor(0,0,0,0);
+  const key = sourceKey ?? null;
+
+  if (config.backend === 'pyramid') {
+    // --- Downsample into the pyramid, then pick levels per fragment ---
+    if (key === null || key !== r.pyramidKey) {
+      renderPyramid(r, source);
+      r.pyramidKey = key;
+    }
+    gl.framebufferTexture2D(gl.FRAMEBUFFER, gl.COLOR_ATTACHMENT0, gl.TEXTURE_2D, r.finalTex, 0);
+    gl.clear(gl.COLOR_BUFFER_BIT);
+    renderPyramidBlur(r, config);
+  } else {
+    if (key === null || key !== r.sourceKey) {
+      gl.activeTexture(gl.TEXTURE0);
+      gl.bindTexture(gl.TEXTURE_2D, r.sourceTex);
+      uploadSource(gl, source, width, height);
+      r.sourceKey = key;
+    }
+
+    // --- Pass 1: Horizontal blur ---
+    gl.framebufferTexture2D(gl.FRAMEBUFFER, gl.COLOR_ATTACHMENT0, gl.TEXTURE_2D, r.tempTex, 0);
+    gl.clear(gl.COLOR_BUFFER_BIT);
+    renderPass(r, r.sourceTex, [1, 0], config);
+
+    // --- Pass 2: Vertical blur ---
+    gl.framebufferTexture2D(gl.FRAMEBUFFER, gl.COLOR_ATTACHMENT0, gl.TEXTURE_2D, r.finalTex, 0);
+    gl.clear(gl.COLOR_BUFFER_BIT);
+    renderPass(r, r.tempTex, [0, 1], config);
+  }
+
+  // --- Optional frosted glass pass, leaves the result in tempTex ---
+  if (hasGlassEffects(config)) {
+    renderGlass(r, config);
+  }
+}
+
+// Blur and read the result back into memory
+function renderBlur(
+  r: GLState,
+  source: BlurSource,
+  width: number,
+  height: number,
+  config: BlurConfig,
+  mask?: BlurMask,
+  sourceKey?: string,
+  maskKey?: string
+): Uint8ClampedArray {
+  const { gl } = r;
+  drawBlur(r, source, width, height, config, mask, sourceKey, maskKey);
+
+  // Read pixels from whichever texture is attached last:
+  const pixels = new Uint8Array(width * height * 4);
+  gl.readPixels(0, 0, width, height, gl.RGBA, gl.UNSIGNED_BYTE, pixels);
+  // A lost context reads back zeros instead of failing
+  if (gl.isContextLost()) {
+    throw new ImageWorkerError('context-lost', "WebGL context lost during rendering.");
+  }
+
+  return new Uint8ClampedArray(pixels.buffer);
+}
+
+// Blur and copy the result into the renderer's canvas, without it ever
+// leaving the GPU. Textures are stored top row first, the canvas is drawn
+// bottom row first, so the blit flips it.
+function renderBlurToCanvas(
+  r: GLState,
+  source: BlurSource,
+  width: number,
+  height: number,
+  config: BlurConfig,
+  mask?: BlurMask,
+  sourceKey?: string,
+  maskKey?: string
+): OffscreenCanvas {
+  const { gl, canvas } = r;
+  drawBlur(r, source, width, height, config, mask, sourceKey, maskKey);
+
+  if (canvas.width !== width || canvas.height !== height) {
+    canvas.width = width;
+    canvas.height = height;
+  }
+  gl.bindFramebuffer(gl.DRAW_FRAMEBUFFER, null);
+  gl.blitFramebuffer(0, 0, width, height, 0, height, width, 0, gl.COLOR_BUFFER_BIT, gl.NEAREST);
+  gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+  if (gl.isContextLost()) {
+    throw new ImageWorkerError('context-lost', "WebGL context lost during rendering.");
+  }
+  return canvas;
+}
+
+export interface RenderOptions {
+  // Custom mask, only read by the "custom" mask mode
+  mask?: BlurMask;
+  // Identity of the source pixels. Renders with the same key reuse the
+  // pixels uploaded last time instead of uploading them again.
+  sourceKey?: string;
+  // Identity of the mask, renders with the same key skip its upload. Without
+  // one the mask is uploaded every time.
+  maskKey?: string;
+}
+
+// A long-lived GPU blur. Keeps its context, programs and textures between
+// renders, so re-rendering with new settings is cheap.
+export interface BlurRenderer {
+  // Blur RGBA pixels of the given size and return the result
+  render(
+    imageData: Uint8ClampedArray,
+    width: number,
+    height: number,
+    config: BlurConfig,
+    options?: RenderOptions
+  ): Uint8ClampedArray;
+  // Blur a source of the given size into the renderer's own canvas and
+  // return that, to draw it somewhere else or turn it into an ImageBitmap.
+  // The canvas is reused by the next render. Unlike render this always runs
+  // the blur, check isBlurActive first.
+  renderToCanvas(
+    source: BlurSource,
+    width: number,
+    height: number,
+    config: BlurConfig,
+    options?: RenderOptions
+  ): OffscreenCanvas;
+  // Free the GPU resources. The renderer must not be used afterwards.
+  dispose(): void;
+}
+
+// Throws an ImageWorkerError with the "webgl-unavailable" code if WebGL2 is
+// missing, so callers can fall back to blurImageCPU.
+export function createBlurRenderer(): BlurRenderer {
+  let state: GLState | null = createGLState();
+
+  return {
+    render(imageData, width, height, config, options = {}) {
+      if (!isBlurActive(config)) return imageData.slice(); // short-circuit if blur’s off
+      // A lost context can't be restored, start over with a fresh one
+      if (!state || state.gl.isContextLost()) state = createGLState();
+      return renderBlur(state, imageData, width, height, config, options.mask, options.sourceKey, options.maskKey);
+    },
+    renderToCanvas(source, width, height, config, options = {}) {
+      if (!state || state.gl.isContextLost()) state = createGLState();
+      return renderBlurToCanvas(state, source, width, height, config, options.mask, options.sourceKey, options.maskKey);
+    },
+    dispose() {
+      state?.gl.getExtension('WEBGL_lose_context')?.loseContext();
+      state = null;
+    },
+  };
+}
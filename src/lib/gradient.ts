@@ -0,0 +1,21 @@
+// Direction the blur grows towards, in image space (y points down).
+// 0° runs top to bottom, 90° left to right, 180° bottom to top.
+export function getGradientDirection(angle: number): [number, number] {
+  const radians = (angle * Math.PI) / 180;
+  return [Math.sin(radians), Math.cos(radians)];
+}
+
+// Length of the gradient line across a width x height box, chosen like CSS
+// linear-gradient so the ramp always spans exactly from corner to corner
+export function getGradientLength(
+  width: number,
+  height: number,
+  direction: [number, number]
+) {
+  return Math.abs(width * direction[0]) + Math.abs(height * direction[1]);
+}
+
+// Keep angles in the 0–360 range
+export function normalizeAngle(angle: number) {
+  return ((angle % 360) + 360) % 360;
+}
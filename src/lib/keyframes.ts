@@ -0,0 +1,223 @@
+import { BlurConfig, parseHexColor } from "./blurConfig";
+import { EASINGS, EasingFunction } from "./easing";
+
+// Settings that can change over the course of an animation. Discrete ones,
+// like the mask mode or the blur type, stay as set in the editor.
+export const ANIMATABLE_FIELDS = [
+  "startPoint",
+  "endPoint",
+  "maxKernelSize",
+  "angle",
+  "focusX",
+  "focusY",
+  "focusAspect",
+  "tintColor",
+  "tintOpacity",
+  "saturation",
+  "brightness",
+  "noise",
+] as const;
+
+export type AnimatableField = (typeof ANIMATABLE_FIELDS)[number];
+
+export const ANIMATABLE_FIELD_LABELS: Record<AnimatableField, string> = {
+  startPoint: "Start",
+  endPoint: "End",
+  maxKernelSize: "Blur",
+  angle: "Angle",
+  focusX: "Focus X",
+  focusY: "Focus Y",
+  focusAspect: "Focus shape",
+  tintColor: "Tint color",
+  tintOpacity: "Tint",
+  saturation: "Saturation",
+  brightness: "Brightness",
+  noise: "Grain",
+};
+
+// Curve from a keyframe to the next one. The blur's own easeIn dips below
+// zero, which would swing values backwards, so easing in is a plain square
+// here. "hold" keeps the value until the next keyframe.
+export const KEYFRAME_EASING_NAMES = [
+  "linear",
+  "easeIn",
+  "easeOut",
+  "easeInOut",
+  "hold",
+] as const;
+
+export type KeyframeEasing = (typeof KEYFRAME_EASING_NAMES)[number];
+
+export const KEYFRAME_EASINGS: Record<KeyframeEasing, EasingFunction> = {
+  linear: EASINGS.linear,
+  easeIn: (x) => x * x,
+  easeOut: EASINGS.easeOut,
+  easeInOut: EASINGS.easeInOut,
+  hold: (x) => (x < 1 ? 0 : 1),
+};
+
+const DEFAULT_KEYFRAME_EASING: KeyframeEasing = "easeInOut";
+
+export interface Keyframe {
+  // Seconds from the start
+  time: number;
+  value: BlurConfig[AnimatableField];
+  // Curve towards the next keyframe
+  easing: KeyframeEasing;
+}
+
+export interface BlurAnimation {
+  // Seconds
+  duration: number;
+  frameRate: number;
+  // Keyframes of each animated setting, sorted by time
+  tracks: Partial<Record<AnimatableField, Keyframe[]>>;
+}
+
+export const DEFAULT_ANIMATION: BlurAnimation = {
+  duration: 3,
+  frameRate: 30,
+  tracks: {},
+};
+
+// Output formats of an animation: a video, or numbered PNG files in a ZIP
+export type AnimationFormat = "webm" | "png";
+
+export const ANIMATION_FORMATS: Record<AnimationFormat, { label: string }> = {
+  webm: { label: "WebM" },
+  png: { label: "PNG frames" },
+};
+
+export const MAX_ANIMATION_DURATION = 60;
+export const MAX_FRAME_RATE = 60;
+
+// Keyframes closer than this are the same keyframe
+const TIME_EPSILON = 1e-3;
+
+export function hasKeyframes(animation: BlurAnimation) {
+  return Object.values(animation.tracks).some((track) => track.length > 0);
+}
+
+export function getFrameCount(animation: BlurAnimation) {
+  return Math.max(1, Math.round(animation.duration * animation.frameRate));
+}
+
+// Snap a time to the frame it falls in, so the preview shows exactly the
+// frames an export renders
+export function snapToFrame(animation: BlurAnimation, time: number) {
+  const frame = Math.floor(time * animation.frameRate + TIME_EPSILON);
+  return (
+    Math.min(getFrameCount(animation) - 1, Math.max(0, frame)) /
+    animation.frameRate
+  );
+}
+
+// Add a keyframe, or change the value of the one at that time
+export function setKeyframe(
+  animation: BlurAnimation,
+  field: AnimatableField,
+  time: number,
+  value: Keyframe["value"]
+): BlurAnimation {
+  const track = animation.tracks[field] ?? [];
+  const existing = track.find(
+    (keyframe) => Math.abs(keyframe.time - time) < TIME_EPSILON
+  );
+  const next = existing
+    ? track.map((keyframe) =>
+        keyframe === existing ? { ...keyframe, value } : keyframe
+      )
+    : [...track, { time, value, easing: DEFAULT_KEYFRAME_EASING }].sort(
+        (a, b) => a.time - b.time
+      );
+  return { ...animation, tracks: { ...animation.tracks, [field]: next } };
+}
+
+export function updateKeyframe(
+  animation: BlurAnimation,
+  field: AnimatableField,
+  time: number,
+  update: Partial<Omit<Keyframe, "time">>
+): BlurAnimation {
+  const track = animation.tracks[field] ?? [];
+  return {
+    ...animation,
+    tracks: {
+      ...animation.tracks,
+      [field]: track.map((keyframe) =>
+        Math.abs(keyframe.time - time) < TIME_EPSILON
+          ? { ...keyframe, ...update }
+          : keyframe
+      ),
+    },
+  };
+}
+
+export function removeKeyframe(
+  animation: BlurAnimation,
+  field: AnimatableField,
+  time: number
+): BlurAnimation {
+  const track = (animation.tracks[field] ?? []).filter(
+    (keyframe) => Math.abs(keyframe.time - time) >= TIME_EPSILON
+  );
+  const tracks = { ...animation.tracks };
+  if (track.length > 0) {
+    tracks[field] = track;
+  } else {
+    delete tracks[field];
+  }
+  return { ...animation, tracks };
+}
+
+function mixColors(from: string, to: string, amount: number) {
+  const a = parseHexColor(from);
+  const b = parseHexColor(to);
+  return `#${a
+    .map((channel, i) =>
+      Math.round((channel + (b[i] - channel) * amount) * 255)
+        .toString(16)
+        .padStart(2, "0")
+    )
+    .join("")}`;
+}
+
+function getTrackValue(track: Keyframe[], time: number) {
+  const nextIndex = track.findIndex((keyframe) => keyframe.time > time);
+  // Before the first keyframe and after the last the value holds
+  if (nextIndex === 0) return track[0].value;
+  if (nextIndex === -1) return track[track.length - 1].value;
+
+  const from = track[nextIndex - 1];
+  const to = track[nextIndex];
+  const amount = KEYFRAME_EASINGS[from.easing](
+    (time - from.time) / (to.time - from.time)
+  );
+  if (typeof from.value === "string" || typeof to.value === "string") {
+    return mixColors(String(from.value), String(to.value), amount);
+  }
+  return from.value + (to.value - from.value) * amount;
+}
+
+// Settings at a point of the animation: the editor's settings with every
+// keyframed one replaced by its value at that time
+export function getAnimatedConfig(
+  config: BlurConfig,
+  animation: BlurAnimation,
+  time: number
+): BlurConfig {
+  let animated = config;
+  for (const field of ANIMATABLE_FIELDS) {
+    const track = animation.tracks[field];
+    if (track && track.length > 0) {
+      animated = { ...animated, [field]: getTrackValue(track, time) };
+    }
+  }
+  // Kernel sizes are whole pixels, and start and end may not cross
+  return {
+    ...animated,
+    maxKernelSize: Math.max(1, Math.round(animated.maxKernelSize)),
+    startPoint: Math.min(animated.startPoint, animated.endPoint),
+    endPoint: Math.max(animated.startPoint, animated.endPoint),
+  };
+}
@@ -0,0 +1,99 @@
+// Live sources: a camera, a shared screen or window, or a generated test
+// pattern that stands in for either without asking for permissions.
+
+export type LiveSourceKind = "camera" | "screen" | "test";
+
+export const LIVE_SOURCE_LABELS: Record<LiveSourceKind, string> = {
+  camera: "Camera",
+  screen: "Screen",
+  test: "Test pattern",
+};
+
+export interface LiveStream {
+  stream: MediaStream;
+  // Stop every track, and whatever feeds a synthetic stream
+  stop(): void;
+}
+
+// Render scale limits. Below the minimum the preview gets too blocky to judge
+// the blur, so frames drop instead.
+export const MIN_LIVE_SCALE = 0.25;
+const SCALE_DOWN = 0.85;
+const SCALE_UP = 1.05;
+
+// Animated stripes and a clock, drawn into a canvas and captured as a stream.
+// Moves across the whole frame, so blur changes anywhere are easy to spot.
+export function createTestPatternStream(
+  width = 1280,
+  height = 720,
+  frameRate = 30
+): LiveStream {
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Couldn't create a canvas for the test pattern.");
+
+  const start = performance.now();
+  const draw = () => {
+    const t = (performance.now() - start) / 1000;
+    const stripe = width / 12;
+    for (let i = -1; i < 13; i++) {
+      ctx.fillStyle = `hsl(${(i * 30 + t * 40) % 360} 70% 55%)`;
+      ctx.fillRect(i * stripe + ((t * 60) % stripe), 0, stripe, height);
+    }
+    ctx.fillStyle = "white";
+    ctx.font = `bold ${Math.round(height / 6)}px sans-serif`;
+    ctx.textAlign = "center";
+    ctx.textBaseline = "middle";
+    ctx.fillText(t.toFixed(1), width / 2, height / 2);
+  };
+  draw();
+  const interval = setInterval(draw, 1000 / frameRate);
+  const stream = canvas.captureStream(frameRate);
+
+  return {
+    stream,
+    stop: () => {
+      clearInterval(interval);
+      stream.getTracks().forEach((track) => track.stop());
+    },
+  };
+}
+
+export async function openLiveStream(
+  kind: LiveSourceKind
+): Promise<LiveStream> {
+  if (kind === "test") return createTestPatternStream();
+
+  const devices = navigator.mediaDevices;
+  if (!devices) {
+    throw new Error("Camera and screen capture need a secure (https) page.");
+  }
+  const stream =
+    kind === "camera"
+      ? await devices.getUserMedia({ video: true, audio: false })
+      : await devices.getDisplayMedia({ video: true, audio: false });
+  return {
+    stream,
+    stop: () => stream.getTracks().forEach((track) => track.stop()),
+  };
+}
+
+// Next render scale for a live source. Frames that take longer than the
+// display's frame interval lower the resolution, fast ones raise it again.
+// Render times are smoothed by the caller, so single slow frames don't make
+// the preview flicker between sizes.
+export function getNextLiveScale(
+  scale: number,
+  renderTime: number,
+  frameBudget: number
+) {
+  if (renderTime > frameBudget * 0.9) {
+    return Math.max(MIN_LIVE_SCALE, scale * SCALE_DOWN);
+  }
+  if (renderTime < frameBudget * 0.5) {
+    return Math.min(1, scale * SCALE_UP);
+  }
+  return scale;
+}
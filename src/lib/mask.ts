@@ -0,0 +1,29 @@
+import { BlurConfig, MaskMode } from "./blurConfig";
+import { getGradientDirection, getGradientLength } from "./gradient";
+
+export const MASK_MODES: Record<MaskMode, string> = {
+  linear: "Linear",
+  radial: "Radial",
+  elliptical: "Ellipse",
+  tiltShift: "Tilt-shift",
+  custom: "Mask",
+};
+
+// Pixel length a focus distance of 1 covers in a width x height frame. Must
+// mirror focusDistance() in the fragment shaders of gpuBlur.ts.
+export function getFocusUnit(
+  mode: MaskMode,
+  width: number,
+  height: number,
+  angle: number
+) {
+  if (mode === "tiltShift") {
+    return getGradientLength(width, height, getGradientDirection(angle)) / 2;
+  }
+  return Math.hypot(width, height) / 2;
+}
+
+// Radial focus is an ellipse that happens to be a circle
+export function getFocusAspect(config: BlurConfig) {
+  return config.maskMode === "elliptical" ? config.focusAspect : 1;
+}
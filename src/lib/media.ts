@@ -0,0 +1,253 @@
+// Decoding of short video clips and animated images into frames for the blur
+// pipeline. Animated GIF, APNG and WebP go through the WebCodecs ImageDecoder
+// where the browser has it. Videos are read by seeking a video element, the
+// browser demuxes them that way and WebCodecs has no demuxer of its own.
+
+// Longest clip, in frames. Every frame is rendered at full resolution.
+export const MAX_CLIP_FRAMES = 300;
+
+// Frames read per second of video
+export const VIDEO_FRAME_RATE = 30;
+
+export interface ClipFrame {
+  canvas: HTMLCanvasElement;
+  // Start and length of the frame in microseconds, like WebCodecs
+  timestamp: number;
+  duration: number;
+}
+
+export interface MediaClip {
+  kind: "video" | "animation";
+  width: number;
+  height: number;
+  frameCount: number;
+  // Frames past the limit that were left out
+  isTruncated: boolean;
+  // Draw a frame into target, or a new canvas. Reads run one at a time.
+  readFrame(index: number, target?: HTMLCanvasElement): Promise<ClipFrame>;
+  close(): void;
+}
+
+// Output formats for clips
+export type ClipFormat = "webm" | "webp";
+
+export const CLIP_FORMATS: Record<
+  ClipFormat,
+  { label: string; extension: string }
+> = {
+  webm: { label: "WebM", extension: "webm" },
+  webp: { label: "Animated WebP", extension: "webp" },
+};
+
+// Encoder taking the rendered frames of a clip one by one
+export interface ClipEncoder {
+  // Timestamp and duration in microseconds
+  addFrame(
+    imageData: ImageData,
+    timestamp: number,
+    duration: number
+  ): Promise<void>;
+  finish(): Promise<Blob>;
+  close(): void;
+}
+
+export class MediaDecodeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "MediaDecodeError";
+  }
+}
+
+// Just the parts of the WebCodecs ImageDecoder used here, TypeScript's DOM
+// types don't have it yet
+interface DecodedImage {
+  image: VideoFrame;
+}
+
+interface ImageDecoderLike {
+  readonly tracks: {
+    readonly ready: Promise<void>;
+    readonly selectedTrack: {
+      readonly animated: boolean;
+      readonly frameCount: number;
+    } | null;
+  };
+  readonly completed: Promise<void>;
+  decode(options: { frameIndex: number }): Promise<DecodedImage>;
+  close(): void;
+}
+
+interface ImageDecoderConstructor {
+  new (init: {
+    data: ReadableStream<Uint8Array>;
+    type: string;
+  }): ImageDecoderLike;
+  isTypeSupported(type: string): Promise<boolean>;
+}
+
+const ANIMATED_TYPES = ["image/gif", "image/png", "image/apng", "image/webp"];
+
+// Files that may hold more than one frame
+export function isClipFile(file: File) {
+  return file.type.startsWith("video/") || ANIMATED_TYPES.includes(file.type);
+}
+
+function getImageDecoder() {
+  return (globalThis as { ImageDecoder?: ImageDecoderConstructor })
+    .ImageDecoder;
+}
+
+function getTarget(
+  target: HTMLCanvasElement | undefined,
+  width: number,
+  height: number
+) {
+  const canvas = target ?? document.createElement("canvas");
+  if (canvas.width !== width) canvas.width = width;
+  if (canvas.height !== height) canvas.height = height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) {
+    throw new MediaDecodeError("Couldn't create a canvas for the frame.");
+  }
+  return { canvas, ctx };
+}
+
+// Run reads one after another, a video element can only seek to one place
+function createReadQueue() {
+  let queue: Promise<unknown> = Promise.resolve();
+  return <T>(read: () => Promise<T>) => {
+    const result = queue.then(read);
+    queue = result.catch(() => undefined);
+    return result;
+  };
+}
+
+async function openAnimation(file: File): Promise<MediaClip | null> {
+  const ImageDecoder = getImageDecoder();
+  // Without WebCodecs animated images open as stills, like they always did
+  if (!ImageDecoder || !(await ImageDecoder.isTypeSupported(file.type))) {
+    return null;
+  }
+
+  const decoder = new ImageDecoder({ data: file.stream(), type: file.type });
+  try {
+    await decoder.tracks.ready;
+    // The frame count of a streamed file is only final once it's all read
+    await decoder.completed;
+  } catch {
+    decoder.close();
+    throw new MediaDecodeError(`Couldn't decode ${file.name}.`);
+  }
+  const track = decoder.tracks.selectedTrack;
+  if (!track || !track.animated || track.frameCount < 2) {
+    decoder.close();
+    return null;
+  }
+
+  const { image: first } = await decoder.decode({ frameIndex: 0 });
+  const width = first.displayWidth;
+  const height = first.displayHeight;
+  first.close();
+
+  const enqueue = createReadQueue();
+  return {
+    kind: "animation",
+    width,
+    height,
+    frameCount: Math.min(track.frameCount, MAX_CLIP_FRAMES),
+    isTruncated: track.frameCount > MAX_CLIP_FRAMES,
+    readFrame: (index, target) =>
+      enqueue(async () => {
+        const { image } = await decoder.decode({ frameIndex: index });
+        try {
+          const { canvas, ctx } = getTarget(target, width, height);
+          ctx.drawImage(image, 0, 0, width, height);
+          return {
+            canvas,
+            timestamp: image.timestamp,
+            // Browsers play frames without a delay at 10 fps
+            duration: image.duration || 100_000,
+          };
+        } finally {
+          image.close();
+        }
+      }),
+    close: () => decoder.close(),
+  };
+}
+
+function waitForEvent(video: HTMLVideoElement, type: string) {
+  return new Promise<void>((resolve, reject) => {
+    const handleEvent = () => {
+      video.removeEventListener("error", handleError);
+      resolve();
+    };
+    const handleError = () => {
+      video.removeEventListener(type, handleEvent);
+      reject(new MediaDecodeError("The video couldn't be decoded."));
+    };
+    video.addEventListener(type, handleEvent, { once: true });
+    video.addEventListener("error", handleError, { once: true });
+  });
+}
+
+async function openVideo(file: File): Promise<MediaClip> {
+  const url = URL.createObjectURL(file);
+  const video = document.createElement("video");
+  video.muted = true;
+  video.playsInline = true;
+  video.preload = "auto";
+  video.src = url;
+
+  try {
+    await waitForEvent(video, "loadeddata");
+  } catch (err) {
+    URL.revokeObjectURL(url);
+    throw err;
+  }
+  if (!Number.isFinite(video.duration) || !video.videoWidth) {
+    URL.revokeObjectURL(url);
+    throw new MediaDecodeError(`${file.name} has no readable video track.`);
+  }
+
+  const width = video.videoWidth;
+  const height = video.videoHeight;
+  const totalFrames = Math.max(
+    1,
+    Math.floor(video.duration * VIDEO_FRAME_RATE)
+  );
+  const duration = 1_000_000 / VIDEO_FRAME_RATE;
+
+  const enqueue = createReadQueue();
+  return {
+    kind: "video",
+    width,
+    height,
+    frameCount: Math.min(totalFrames, MAX_CLIP_FRAMES),
+    isTruncated: totalFrames > MAX_CLIP_FRAMES,
+    readFrame: (index, target) =>
+      enqueue(async () => {
+        // Aim at the middle of the frame, seeking to its very start can land
+        // on the one before
+        const time = (index + 0.5) / VIDEO_FRAME_RATE;
+        if (video.currentTime !== time) {
+          const seeked = waitForEvent(video, "seeked");
+          video.currentTime = time;
+          await seeked;
+        }
+        const { canvas, ctx } = getTarget(target, width, height);
+        ctx.drawImage(video, 0, 0, width, height);
+        return { canvas, timestamp: index * duration, duration };
+      }),
+    close: () => {
+      video.removeAttribute("src");
+      video.load();
+      URL.revokeObjectURL(url);
+    },
+  };
+}
+
+// Open a file as a clip, or resolve to null for a still image
+export function openMediaClip(file: File): Promise<MediaClip | null> {
+  return file.type.startsWith("video/") ? openVideo(file) : openAnimation(file);
+}
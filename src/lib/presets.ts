@@ -0,0 +1,161 @@
+import {
+  BlurConfig,
+  BlurConfigError,
+  DEFAULT_BLUR_CONFIG,
+  parseBlurConfig,
+} from "./blurConfig";
+
+// Named blur settings. Built-in presets ship with the app, user presets are
+// saved in localStorage and can be shared as JSON files.
+export interface BlurPreset {
+  id: string;
+  name: string;
+  config: BlurConfig;
+  builtIn?: boolean;
+}
+
+// Format of exported preset files and of the localStorage entry
+interface PresetFile {
+  type: typeof PRESET_FILE_TYPE;
+  version: 1;
+  presets: { name: string; config: BlurConfig }[];
+}
+
+const PRESET_FILE_TYPE = "progressive-blur-presets";
+const STORAGE_KEY = "progressive-blur:presets";
+
+export const BUILT_IN_PRESETS: BlurPreset[] = [
+  {
+    id: "builtin:ios-header",
+    name: "iOS header",
+    builtIn: true,
+    config: {
+      ...DEFAULT_BLUR_CONFIG,
+      startPoint: 0.75,
+      endPoint: 1,
+      maxKernelSize: 99,
+      easing: "easeOut",
+      angle: 180,
+      tintColor: "#ffffff",
+      tintOpacity: 0.15,
+      saturation: 1.8,
+      noise: 0.03,
+    },
+  },
+  {
+    id: "builtin:soft-fade",
+    name: "Soft fade",
+    builtIn: true,
+    config: {
+      ...DEFAULT_BLUR_CONFIG,
+      startPoint: 0.4,
+      endPoint: 1,
+      maxKernelSize: 199,
+      easing: "easeIn",
+    },
+  },
+  {
+    id: "builtin:tilt-shift",
+    name: "Tilt-shift",
+    builtIn: true,
+    config: {
+      ...DEFAULT_BLUR_CONFIG,
+      startPoint: 0.15,
+      endPoint: 0.7,
+      maxKernelSize: 75,
+      angle: 0,
+      maskMode: "tiltShift",
+    },
+  },
+  {
+    id: "builtin:spotlight",
+    name: "Spotlight",
+    builtIn: true,
+    config: {
+      ...DEFAULT_BLUR_CONFIG,
+      startPoint: 0.25,
+      endPoint: 0.9,
+      maxKernelSize: 151,
+      maskMode: "radial",
+    },
+  },
+];
+
+export function createPresetId() {
+  return crypto.randomUUID();
+}
+
+// Read presets from a parsed preset file. Entries with an unusable config
+// are skipped, configs from older versions are migrated.
+function readPresetFile(data: unknown): BlurPreset[] {
+  const file = data as Partial<PresetFile> | null;
+  if (file?.type !== PRESET_FILE_TYPE || !Array.isArray(file.presets)) {
+    throw new Error("This is not a blur preset file.");
+  }
+
+  const presets: BlurPreset[] = [];
+  for (const entry of file.presets) {
+    if (typeof entry?.name !== "string" || !entry.name.trim()) continue;
+    try {
+      presets.push({
+        id: createPresetId(),
+        name: entry.name.trim(),
+        config: parseBlurConfig(entry.config),
+      });
+    } catch (err) {
+      if (!(err instanceof BlurConfigError)) throw err;
+    }
+  }
+  return presets;
+}
+
+function toPresetFile(presets: BlurPreset[]): PresetFile {
+  return {
+    type: PRESET_FILE_TYPE,
+    version: 1,
+    presets: presets.map(({ name, config }) => ({ name, config })),
+  };
+}
+
+// User presets saved by an earlier visit, empty if there are none or the
+// entry is unreadable
+export function loadUserPresets(): BlurPreset[] {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    return saved ? readPresetFile(JSON.parse(saved)) : [];
+  } catch (err) {
+    console.warn("Ignoring unreadable saved presets:", err);
+    return [];
+  }
+}
+
+export function saveUserPresets(presets: BlurPreset[]) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(toPresetFile(presets)));
+  } catch (err) {
+    // Private browsing or a full quota, presets just won't survive a reload
+    console.warn("Saving presets failed:", err);
+  }
+}
+
+// Presets from a JSON file exported by exportPresetsFile
+export async function importPresetsFile(file: File): Promise<BlurPreset[]> {
+  let data: unknown;
+  try {
+    data = JSON.parse(await file.text());
+  } catch {
+    throw new Error(`${file.name} is not valid JSON.`);
+  }
+  return readPresetFile(data);
+}
+
+export function exportPresetsFile(presets: BlurPreset[]) {
+  return new Blob([JSON.stringify(toPresetFile(presets), null, 2)], {
+    type: "application/json",
+  });
+}
+
+// Whether a config matches a preset, used to show which one is applied
+export function isPresetConfig(preset: BlurPreset, config: BlurConfig) {
+  return JSON.stringify(preset.config) === JSON.stringify(config);
+}
@@ -0,0 +1,62 @@
+import { BlurType } from "./blurConfig";
+
+// Filters and level selection of the pyramid backend. gpuBlur.ts builds its
+// shaders from these, so anything reproducing the pyramid outside of WebGL
+// (like the tests) uses the same numbers.
+
+// Offset in texels and weight of one tap of a filter
+export type FilterTap = readonly [dx: number, dy: number, weight: number];
+
+// Dual-Kawase down filter, from one level into the next
+export const DOWNSAMPLE_TAPS: readonly FilterTap[] = [
+  [0, 0, 4],
+  [-1, -1, 1],
+  [1, -1, 1],
+  [-1, 1, 1],
+  [1, 1, 1],
+];
+
+// 9-tap tent filter over the picked level, hides the blockiness of the
+// coarse levels
+export const TENT_TAPS: readonly FilterTap[] = [
+  [0, 0, 4],
+  [-1, 0, 2],
+  [1, 0, 2],
+  [0, -1, 2],
+  [0, 1, 2],
+  [-1, -1, 1],
+  [1, -1, 1],
+  [-1, 1, 1],
+  [1, 1, 1],
+];
+
+// Approximate gaussian sigma (in source pixels) of level 0 seen through the
+// tent filter. It doubles with every level.
+export const PYRAMID_LEVEL_SIGMA = 0.8;
+
+// Sigma of the exact kernel as a fraction of its size: box for linear,
+// gaussian otherwise
+export const KERNEL_SIGMA_RATIOS: Record<Exclude<BlurType, "none">, number> = {
+  linear: 1 / Math.sqrt(12),
+  gaussian: 1 / 6,
+};
+
+export function getFilterWeight(taps: readonly FilterTap[]) {
+  return taps.reduce((sum, [, , weight]) => sum + weight, 0);
+}
+
+// Mip levels down to 1×1
+export function getPyramidLevelCount(width: number, height: number) {
+  return Math.floor(Math.log2(Math.max(width, height))) + 1;
+}
+
+// Level whose blur matches a kernel size, fractional between two levels.
+// Mirrors main() of the pyramid shader.
+export function getPyramidLod(
+  kernelSize: number,
+  blurType: Exclude<BlurType, "none">,
+  maxLod: number
+) {
+  const sigma = kernelSize * KERNEL_SIGMA_RATIOS[blurType];
+  return Math.min(Math.max(Math.log2(sigma / PYRAMID_LEVEL_SIGMA), 0), maxLod);
+}
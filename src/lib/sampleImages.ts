@@ -0,0 +1,15 @@
+import sampleImage1 from "../assets/sample-image-1.jpg";
+import sampleImage2 from "../assets/sample-image-2.jpg";
+import sampleImage3 from "../assets/sample-image-3.jpg";
+
+// Images offered by the uploader. The ids are part of share links, so keep
+// them stable when images are added or replaced.
+export const SAMPLE_IMAGES = [
+  { id: "sample-1", src: sampleImage1 },
+  { id: "sample-2", src: sampleImage2 },
+  { id: "sample-3", src: sampleImage3 },
+];
+
+export function getSampleImage(id: string | undefined) {
+  return SAMPLE_IMAGES.find((image) => image.id === id);
+}
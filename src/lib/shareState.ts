@@ -0,0 +1,60 @@
+import { BlurConfig, parseBlurConfig } from "./blurConfig";
+
+// What a share link carries: the full blur config and, when a sample image
+// is open, which one. Uploaded images stay local and are never part of it.
+export interface ShareState {
+  config: BlurConfig;
+  sampleId?: string;
+}
+
+// base64url keeps the hash free of characters that need escaping
+function encodeBase64Url(text: string) {
+  const bytes = new TextEncoder().encode(text);
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+function decodeBase64Url(text: string) {
+  const binary = atob(text.replace(/-/g, "+").replace(/_/g, "/"));
+  return new TextDecoder().decode(
+    Uint8Array.from(binary, (char) => char.charCodeAt(0))
+  );
+}
+
+// Hash fragment (without the #) for a state, e.g. "c=eyJ2ZXJza...&img=sample-1"
+export function encodeShareState({ config, sampleId }: ShareState) {
+  const params = new URLSearchParams();
+  params.set("c", encodeBase64Url(JSON.stringify(config)));
+  if (sampleId) params.set("img", sampleId);
+  return params.toString();
+}
+
+// Read a state from a hash fragment. Parts that are missing or can't be read
+// are left out, the config is validated and migrated like any other input.
+export function decodeShareState(hash: string): Partial<ShareState> {
+  const params = new URLSearchParams(hash.replace(/^#/, ""));
+  const state: Partial<ShareState> = {};
+
+  const encodedConfig = params.get("c");
+  if (encodedConfig) {
+    try {
+      state.config = parseBlurConfig(
+        JSON.parse(decodeBase64Url(encodedConfig))
+      );
+    } catch (err) {
+      // Cut off or hand-edited links, open with the current settings instead
+      console.warn("Ignoring unreadable blur config in the link:", err);
+    }
+  }
+  const sampleId = params.get("img");
+  if (sampleId) state.sampleId = sampleId;
+  return state;
+}
+
+export function getShareUrl(state: ShareState) {
+  const url = new URL(window.location.href);
+  url.hash = encodeShareState(state);
+  return url.toString();
+}
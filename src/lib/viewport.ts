@@ -0,0 +1,255 @@
+import { OutputFrame } from "./crop";
+import { CoverFit } from "./export";
+
+// Preset zoom levels: show the output frame, cover the view with it, show the
+// whole image, or one image pixel per device pixel
+export type ViewPreset = "frame" | "fill" | "fit" | "actual";
+
+// Zoom and pan of the canvas view. Zoom is relative to the home view, where
+// the output frame fits the window, and the center is the frame point (0–1)
+// in the middle of the view, so the view stays put when the window is resized.
+export interface ViewTransform {
+  zoom: number;
+  centerX: number;
+  centerY: number;
+}
+
+// Part of the canvas to render, in canvas pixels
+export interface CanvasRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface Size {
+  width: number;
+  height: number;
+}
+
+export const HOME_VIEW: ViewTransform = { zoom: 1, centerX: 0.5, centerY: 0.5 };
+
+// Room around a crop frame in the home view, in CSS pixels
+export const FRAME_PADDING = 24;
+
+export const MIN_ZOOM = 0.1;
+export const MAX_ZOOM = 64;
+
+const clamp = (value: number, min: number, max: number) =>
+  Math.min(max, Math.max(min, value));
+
+// Keep some part of the image under the middle of the view
+function clampView(view: ViewTransform, frame: OutputFrame): ViewTransform {
+  const { imageFit } = frame;
+  return {
+    zoom: clamp(view.zoom, MIN_ZOOM, MAX_ZOOM),
+    centerX: clamp(
+      view.centerX,
+      imageFit.offsetX / frame.width,
+      (imageFit.offsetX + imageFit.drawWidth) / frame.width
+    ),
+    centerY: clamp(
+      view.centerY,
+      imageFit.offsetY / frame.height,
+      (imageFit.offsetY + imageFit.drawHeight) / frame.height
+    ),
+  };
+}
+
+// Rectangle (in CSS pixels) the frame takes at zoom 1, inset by padding
+export function getFrameHome(
+  frame: OutputFrame,
+  viewSize: Size,
+  padding: number
+): CoverFit {
+  const scale = Math.max(
+    0,
+    Math.min(
+      (viewSize.width - padding * 2) / frame.width,
+      (viewSize.height - padding * 2) / frame.height
+    )
+  );
+  const drawWidth = frame.width * scale;
+  const drawHeight = frame.height * scale;
+  return {
+    offsetX: (viewSize.width - drawWidth) / 2,
+    offsetY: (viewSize.height - drawHeight) / 2,
+    drawWidth,
+    drawHeight,
+  };
+}
+
+// Rectangle (in CSS pixels) the frame is drawn at with a view transform
+export function getViewFit(
+  home: CoverFit,
+  viewSize: Size,
+  view: ViewTransform
+): CoverFit {
+  const drawWidth = home.drawWidth * view.zoom;
+  const drawHeight = home.drawHeight * view.zoom;
+  return {
+    offsetX: viewSize.width / 2 - view.centerX * drawWidth,
+    offsetY: viewSize.height / 2 - view.centerY * drawHeight,
+    drawWidth,
+    drawHeight,
+  };
+}
+
+// Rectangle (in CSS pixels) the whole image is drawn at, given the frame's
+export function getImageViewFit(
+  frameFit: CoverFit,
+  frame: OutputFrame
+): CoverFit {
+  const scale = frameFit.drawWidth / frame.width;
+  return {
+    offsetX: frameFit.offsetX + frame.imageFit.offsetX * scale,
+    offsetY: frameFit.offsetY + frame.imageFit.offsetY * scale,
+    drawWidth: frame.imageFit.drawWidth * scale,
+    drawHeight: frame.imageFit.drawHeight * scale,
+  };
+}
+
+export function getPresetView(
+  preset: ViewPreset,
+  frame: OutputFrame,
+  home: CoverFit,
+  image: Size,
+  viewSize: Size,
+  pixelRatio: number
+): ViewTransform {
+  const { imageFit } = frame;
+  // CSS pixels per frame unit at zoom 1
+  const homeScale = home.drawWidth / frame.width;
+  if (preset === "fill") {
+    const zoom = Math.max(
+      viewSize.width / home.drawWidth,
+      viewSize.height / home.drawHeight
+    );
+    return clampView({ ...HOME_VIEW, zoom }, frame);
+  }
+  if (preset === "fit") {
+    const zoom = Math.min(
+      viewSize.width / (imageFit.drawWidth * homeScale),
+      viewSize.height / (imageFit.drawHeight * homeScale)
+    );
+    return clampView(
+      {
+        zoom,
+        centerX: (imageFit.offsetX + imageFit.drawWidth / 2) / frame.width,
+        centerY: (imageFit.offsetY + imageFit.drawHeight / 2) / frame.height,
+      },
+      frame
+    );
+  }
+  if (preset === "actual") {
+    // CSS pixels per image pixel at zoom 1
+    const imageScale = (imageFit.drawWidth * homeScale) / image.width;
+    return clampView(
+      { ...HOME_VIEW, zoom: 1 / pixelRatio / imageScale },
+      frame
+    );
+  }
+  return HOME_VIEW;
+}
+
+// Zoom to nextZoom around a point of the view (in CSS pixels), keeping the
+// frame point under it in place
+export function zoomViewAt(
+  view: ViewTransform,
+  frame: OutputFrame,
+  fit: CoverFit,
+  viewSize: Size,
+  point: { x: number; y: number },
+  nextZoom: number
+): ViewTransform {
+  const zoom = clamp(nextZoom, MIN_ZOOM, MAX_ZOOM);
+  const u = (point.x - fit.offsetX) / fit.drawWidth;
+  const v = (point.y - fit.offsetY) / fit.drawHeight;
+  const drawWidth = (fit.drawWidth * zoom) / view.zoom;
+  const drawHeight = (fit.drawHeight * zoom) / view.zoom;
+  return clampView(
+    {
+      zoom,
+      centerX: u + (viewSize.width / 2 - point.x) / drawWidth,
+      centerY: v + (viewSize.height / 2 - point.y) / drawHeight,
+    },
+    frame
+  );
+}
+
+// Move the view by a drag of dx, dy CSS pixels
+export function panView(
+  view: ViewTransform,
+  frame: OutputFrame,
+  fit: CoverFit,
+  dx: number,
+  dy: number
+): ViewTransform {
+  return clampView(
+    {
+      ...view,
+      centerX: view.centerX - dx / fit.drawWidth,
+      centerY: view.centerY - dy / fit.drawHeight,
+    },
+    frame
+  );
+}
+
+// Center the view on an image point in 0–1 coordinates
+export function centerViewOn(
+  view: ViewTransform,
+  frame: OutputFrame,
+  imageX: number,
+  imageY: number
+): ViewTransform {
+  const { imageFit } = frame;
+  return clampView(
+    {
+      ...view,
+      centerX: (imageFit.offsetX + imageX * imageFit.drawWidth) / frame.width,
+      centerY: (imageFit.offsetY + imageY * imageFit.drawHeight) / frame.height,
+    },
+    frame
+  );
+}
+
+// Part of the canvas covered by a rectangle, like the image or the frame.
+// Only this part is blurred, so zoomed out views don't pull the background
+// into the image edges.
+export function getVisibleRegion(
+  fit: CoverFit,
+  canvasWidth: number,
+  canvasHeight: number,
+  pixelRatio: number
+): CanvasRegion {
+  const x = clamp(Math.round(fit.offsetX * pixelRatio), 0, canvasWidth);
+  const y = clamp(Math.round(fit.offsetY * pixelRatio), 0, canvasHeight);
+  const right = clamp(
+    Math.round((fit.offsetX + fit.drawWidth) * pixelRatio),
+    0,
+    canvasWidth
+  );
+  const bottom = clamp(
+    Math.round((fit.offsetY + fit.drawHeight) * pixelRatio),
+    0,
+    canvasHeight
+  );
+  return { x, y, width: right - x, height: bottom - y };
+}
+
+// Where a canvas region lies in the output frame, in frame units. Feed it to
+// mapBlurConfigToImage to get the settings for rendering the region.
+export function getRegionFit(
+  frame: OutputFrame,
+  frameFit: CoverFit,
+  region: CanvasRegion,
+  pixelRatio: number
+): CoverFit {
+  const scale = frameFit.drawWidth / frame.width;
+  return {
+    offsetX: (region.x / pixelRatio - frameFit.offsetX) / scale,
+    offsetY: (region.y / pixelRatio - frameFit.offsetY) / scale,
+    drawWidth: region.width / pixelRatio / scale,
+    drawHeight: region.height / pixelRatio / scale,
+  };
+}
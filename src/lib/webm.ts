@@ -0,0 +1,257 @@
+import { ClipEncoder } from "./media";
+
+// WebM writer for the frames of a clip. Encoding is left to the WebCodecs
+// VideoEncoder, this only muxes its VP9 or VP8 chunks into a file with one
+// video track. Clips are short, so everything is kept in memory and written
+// once the sizes are known.
+
+// Frames between forced key frames, so seeking in players stays quick
+const KEY_FRAME_INTERVAL = 60;
+
+// Block times are 16-bit offsets from the cluster's time, in milliseconds
+const MAX_CLUSTER_SPAN_MS = 30_000;
+
+const CODECS = [
+  { codec: "vp09.00.10.08", codecId: "V_VP9" },
+  { codec: "vp8", codecId: "V_VP8" },
+];
+
+interface EncodedFrame {
+  data: Uint8Array;
+  // Milliseconds
+  time: number;
+  isKey: boolean;
+}
+
+type Bytes = Uint8Array;
+
+function concat(parts: Bytes[]) {
+  const result = new Uint8Array(
+    parts.reduce((size, part) => size + part.length, 0)
+  );
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+// EBML variable length size, as short as it fits
+function encodeSize(size: number) {
+  for (let length = 1; length <= 8; length++) {
+    // All ones is reserved for unknown sizes
+    if (size < 2 ** (7 * length) - 1) {
+      const bytes = new Uint8Array(length);
+      let value = size;
+      for (let i = length - 1; i >= 0; i--) {
+        bytes[i] = value % 256;
+        value = Math.floor(value / 256);
+      }
+      bytes[0] |= 1 << (8 - length);
+      return bytes;
+    }
+  }
+  throw new RangeError("WebM element too large");
+}
+
+function encodeId(id: number) {
+  const bytes: number[] = [];
+  for (let value = id; value > 0; value = Math.floor(value / 256)) {
+    bytes.unshift(value % 256);
+  }
+  return new Uint8Array(bytes);
+}
+
+function element(id: number, ...children: Bytes[]) {
+  const payload = concat(children);
+  return concat([encodeId(id), encodeSize(payload.length), payload]);
+}
+
+function uint(id: number, value: number) {
+  const bytes: number[] = [];
+  for (
+    let rest = value;
+    bytes.length === 0 || rest > 0;
+    rest = Math.floor(rest / 256)
+  ) {
+    bytes.unshift(rest % 256);
+  }
+  return element(id, new Uint8Array(bytes));
+}
+
+function float(id: number, value: number) {
+  const view = new DataView(new ArrayBuffer(8));
+  view.setFloat64(0, value);
+  return element(id, new Uint8Array(view.buffer));
+}
+
+function string(id: number, value: string) {
+  return element(id, new TextEncoder().encode(value));
+}
+
+function simpleBlock(frame: EncodedFrame, clusterTime: number) {
+  const header = new DataView(new ArrayBuffer(4));
+  header.setUint8(0, 0x81); // track number 1
+  header.setInt16(1, frame.time - clusterTime);
+  header.setUint8(3, frame.isKey ? 0x80 : 0);
+  return element(0xa3, new Uint8Array(header.buffer), frame.data);
+}
+
+function writeWebm(
+  frames: EncodedFrame[],
+  codecId: string,
+  width: number,
+  height: number,
+  duration: number
+) {
+  const header = element(
+    0x1a45dfa3, // EBML
+    uint(0x4286, 1), // EBMLVersion
+    uint(0x42f7, 1), // EBMLReadVersion
+    uint(0x42f2, 4), // EBMLMaxIDLength
+    uint(0x42f3, 8), // EBMLMaxSizeLength
+    string(0x4282, "webm"), // DocType
+    uint(0x4287, 2), // DocTypeVersion
+    uint(0x4285, 2) // DocTypeReadVersion
+  );
+
+  const info = element(
+    0x1549a966, // Info
+    uint(0x2ad7b1, 1_000_000), // TimestampScale: milliseconds
+    string(0x4d80, "progressive-blur"), // MuxingApp
+    string(0x5741, "progressive-blur"), // WritingApp
+    float(0x4489, duration) // Duration
+  );
+
+  const tracks = element(
+    0x1654ae6b, // Tracks
+    element(
+      0xae, // TrackEntry
+      uint(0xd7, 1), // TrackNumber
+      uint(0x73c5, 1), // TrackUID
+      uint(0x83, 1), // TrackType: video
+      string(0x86, codecId), // CodecID
+      element(
+        0xe0, // Video
+        uint(0xb0, width), // PixelWidth
+        uint(0xba, height) // PixelHeight
+      )
+    )
+  );
+
+  // A new cluster at every key frame, or when block offsets would overflow
+  const clusters: Bytes[] = [];
+  let blocks: Bytes[] = [];
+  let clusterTime = 0;
+  const flush = () => {
+    if (blocks.length === 0) return;
+    clusters.push(element(0x1f43b675, uint(0xe7, clusterTime), ...blocks));
+    blocks = [];
+  };
+  for (const frame of frames) {
+    if (
+      blocks.length === 0 ||
+      frame.isKey ||
+      frame.time - clusterTime > MAX_CLUSTER_SPAN_MS
+    ) {
+      flush();
+      clusterTime = frame.time;
+    }
+    blocks.push(simpleBlock(frame, clusterTime));
+  }
+  flush();
+
+  const segment = element(0x18538067, info, tracks, ...clusters);
+  return new Blob([header, segment], { type: "video/webm" });
+}
+
+// WebM encoder for frames of one size, VP9 where the browser can encode it
+export async function createWebmEncoder(
+  width: number,
+  height: number
+): Promise<ClipEncoder> {
+  if (typeof VideoEncoder === "undefined") {
+    throw new Error(
+      "This browser has no video encoder, export an animated WebP instead."
+    );
+  }
+
+  let selected: (typeof CODECS)[number] | null = null;
+  let config: VideoEncoderConfig | null = null;
+  for (const candidate of CODECS) {
+    const candidateConfig: VideoEncoderConfig = {
+      codec: candidate.codec,
+      width,
+      height,
+      // Blurred frames compress well, keep the sharp parts crisp
+      bitrate: Math.round(width * height * 8),
+      latencyMode: "quality",
+    };
+    const { supported } = await VideoEncoder.isConfigSupported(candidateConfig);
+    if (supported) {
+      selected = candidate;
+      config = candidateConfig;
+      break;
+    }
+  }
+  if (!selected || !config) {
+    throw new Error(
+      `The video encoder can't encode ${width} × ${height} frames.`
+    );
+  }
+  const { codecId } = selected;
+
+  const frames: EncodedFrame[] = [];
+  let encodeError: Error | null = null;
+  const encoder = new VideoEncoder({
+    output: (chunk) => {
+      const data = new Uint8Array(chunk.byteLength);
+      chunk.copyTo(data);
+      frames.push({
+        data,
+        time: Math.round(chunk.timestamp / 1000),
+        isKey: chunk.type === "key",
+      });
+    },
+    error: (err) => {
+      encodeError = err;
+    },
+  });
+  encoder.configure(config);
+
+  let frameIndex = 0;
+  let end = 0;
+  return {
+    async addFrame(imageData, timestamp, duration) {
+      if (encodeError) throw encodeError;
+      const frame = new VideoFrame(imageData.data, {
+        format: "RGBA",
+        codedWidth: imageData.width,
+        codedHeight: imageData.height,
+        timestamp,
+        duration,
+      });
+      encoder.encode(frame, {
+        keyFrame: frameIndex % KEY_FRAME_INTERVAL === 0,
+      });
+      frame.close();
+      frameIndex++;
+      end = Math.max(end, timestamp + duration);
+      // Don't let raw frames pile up ahead of a slow encoder
+      while (encoder.encodeQueueSize > 2) {
+        await new Promise((resolve) => setTimeout(resolve, 10));
+      }
+    },
+    async finish() {
+      await encoder.flush();
+      if (encodeError) throw encodeError;
+      encoder.close();
+      frames.sort((a, b) => a.time - b.time);
+      return writeWebm(frames, codecId, width, height, end / 1000);
+    },
+    close() {
+      if (encoder.state !== "closed") encoder.close();
+    },
+  };
+}
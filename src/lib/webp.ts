@@ -0,0 +1,146 @@
+import { ClipEncoder } from "./media";
+
+// Animated WebP writer. Each frame is encoded as a still WebP by the browser,
+// its image chunks are then wrapped into animation frames of one file.
+
+export interface WebpFrame {
+  // A complete still WebP file
+  data: Uint8Array;
+  // Milliseconds
+  duration: number;
+}
+
+// Chunks that make up the image of a still WebP, everything else is metadata
+const IMAGE_CHUNKS = ["ALPH", "VP8 ", "VP8L"];
+
+// Largest 24-bit field value, the limit for frame durations
+const MAX_UINT24 = 0xffffff;
+
+function readFourCC(data: Uint8Array, offset: number) {
+  return String.fromCharCode(...data.subarray(offset, offset + 4));
+}
+
+function writeUint24(view: DataView, offset: number, value: number) {
+  view.setUint8(offset, value & 0xff);
+  view.setUint8(offset + 1, (value >> 8) & 0xff);
+  view.setUint8(offset + 2, (value >> 16) & 0xff);
+}
+
+function chunk(fourCC: string, payload: Uint8Array) {
+  // Chunks are padded to an even size
+  const bytes = new Uint8Array(8 + payload.length + (payload.length % 2));
+  const view = new DataView(bytes.buffer);
+  for (let i = 0; i < 4; i++) bytes[i] = fourCC.charCodeAt(i);
+  view.setUint32(4, payload.length, true);
+  bytes.set(payload, 8);
+  return bytes;
+}
+
+// The image chunks of a still WebP, with their headers and padding
+function getImageChunks(data: Uint8Array) {
+  if (readFourCC(data, 0) !== "RIFF" || readFourCC(data, 8) !== "WEBP") {
+    throw new Error("The browser didn't encode the frame as WebP.");
+  }
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const chunks: Uint8Array[] = [];
+  let hasAlpha = false;
+  for (let offset = 12; offset + 8 <= data.length;) {
+    const fourCC = readFourCC(data, offset);
+    const size = view.getUint32(offset + 4, true);
+    const end = offset + 8 + size + (size % 2);
+    if (IMAGE_CHUNKS.includes(fourCC)) {
+      chunks.push(data.subarray(offset, end));
+      // Lossless frames may always carry alpha
+      if (fourCC !== "VP8 ") hasAlpha = true;
+    }
+    offset = end;
+  }
+  if (chunks.length === 0) {
+    throw new Error("The encoded frame has no image data.");
+  }
+  return { chunks, hasAlpha };
+}
+
+// Combine still frames of one size into a looping animation
+export function createAnimatedWebp(
+  frames: WebpFrame[],
+  width: number,
+  height: number
+): Blob {
+  let hasAlpha = false;
+  const animationFrames = frames.map((frame) => {
+    const image = getImageChunks(frame.data);
+    hasAlpha ||= image.hasAlpha;
+
+    const header = new DataView(new ArrayBuffer(16));
+    // Every frame covers the whole canvas, so the offsets stay zero
+    writeUint24(header, 6, width - 1);
+    writeUint24(header, 9, height - 1);
+    writeUint24(
+      header,
+      12,
+      Math.min(MAX_UINT24, Math.max(1, Math.round(frame.duration)))
+    );
+    // Replace instead of blending, so no earlier frame shows through
+    header.setUint8(15, 0b10);
+    const payload = new Uint8Array(
+      16 + image.chunks.reduce((size, part) => size + part.length, 0)
+    );
+    payload.set(new Uint8Array(header.buffer));
+    let offset = 16;
+    for (const part of image.chunks) {
+      payload.set(part, offset);
+      offset += part.length;
+    }
+    return chunk("ANMF", payload);
+  });
+
+  const features = new DataView(new ArrayBuffer(10));
+  features.setUint8(0, 0b10 | (hasAlpha ? 0b10000 : 0)); // animation, alpha
+  writeUint24(features, 4, width - 1);
+  writeUint24(features, 7, height - 1);
+
+  // Black background, loop forever
+  const animation = new Uint8Array(6);
+
+  const body = [
+    chunk("VP8X", new Uint8Array(features.buffer)),
+    chunk("ANIM", animation),
+    ...animationFrames,
+  ];
+  const riff = new DataView(new ArrayBuffer(12));
+  riff.setUint32(0, 0x52494646); // "RIFF"
+  riff.setUint32(
+    4,
+    4 + body.reduce((size, part) => size + part.length, 0),
+    true
+  );
+  riff.setUint32(8, 0x57454250); // "WEBP"
+
+  return new Blob([riff.buffer, ...body], { type: "image/webp" });
+}
+
+// Clip encoder writing an animated WebP, encodeStill turns a frame into a
+// still WebP file
+export function createWebpEncoder(
+  width: number,
+  height: number,
+  encodeStill: (imageData: ImageData) => Promise<Blob>
+): ClipEncoder {
+  const frames: WebpFrame[] = [];
+  return {
+    async addFrame(imageData, _timestamp, duration) {
+      const blob = await encodeStill(imageData);
+      frames.push({
+        data: new Uint8Array(await blob.arrayBuffer()),
+        duration: duration / 1000,
+      });
+    },
+    async finish() {
+      return createAnimatedWebp(frames, width, height);
+    },
+    close() {
+      frames.length = 0;
+    },
+  };
+}
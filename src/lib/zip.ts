@@ -0,0 +1,117 @@
+// Minimal ZIP writer for downloading several results at once. Entries are
+// stored without compression: PNG, JPEG and WebP are compressed already, and
+// it keeps the writer small enough to not need a library.
+
+export interface ZipEntry {
+  name: string;
+  data: Uint8Array;
+  lastModified?: Date;
+}
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(data: Uint8Array) {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// MS-DOS time and date fields, local time with two second precision
+function getDosDateTime(date: Date) {
+  const time =
+    (date.getHours() << 11) |
+    (date.getMinutes() << 5) |
+    Math.floor(date.getSeconds() / 2);
+  const day =
+    (Math.max(0, date.getFullYear() - 1980) << 9) |
+    ((date.getMonth() + 1) << 5) |
+    date.getDate();
+  return { time, day };
+}
+
+// Names have to be unique within an archive, later duplicates get a counter
+// before their extension
+export function getUniqueName(name: string, taken: Set<string>) {
+  let unique = name;
+  const dot = name.lastIndexOf(".");
+  const [base, extension] =
+    dot > 0 ? [name.slice(0, dot), name.slice(dot)] : [name, ""];
+  for (let i = 2; taken.has(unique); i++) {
+    unique = `${base}-${i}${extension}`;
+  }
+  taken.add(unique);
+  return unique;
+}
+
+export function createZip(entries: ZipEntry[]): Blob {
+  const encoder = new TextEncoder();
+  const parts: BlobPart[] = [];
+  const centralDirectory: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name);
+    const crc = crc32(entry.data);
+    const { time, day } = getDosDateTime(entry.lastModified ?? new Date());
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true); // local file header signature
+    local.setUint16(4, 20, true); // version needed: 2.0
+    local.setUint16(6, 0x0800, true); // flags: UTF-8 names
+    local.setUint16(8, 0, true); // method: stored
+    local.setUint16(10, time, true);
+    local.setUint16(12, day, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, entry.data.length, true); // compressed size
+    local.setUint32(22, entry.data.length, true); // uncompressed size
+    local.setUint16(26, name.length, true);
+    local.setUint16(28, 0, true); // extra field length
+    parts.push(local.buffer, name, entry.data);
+
+    const central = new DataView(new ArrayBuffer(46 + name.length));
+    central.setUint32(0, 0x02014b50, true); // central directory signature
+    central.setUint16(4, 20, true); // version made by
+    central.setUint16(6, 20, true); // version needed
+    central.setUint16(8, 0x0800, true);
+    central.setUint16(10, 0, true);
+    central.setUint16(12, time, true);
+    central.setUint16(14, day, true);
+    central.setUint32(16, crc, true);
+    central.setUint32(20, entry.data.length, true);
+    central.setUint32(24, entry.data.length, true);
+    central.setUint16(28, name.length, true);
+    // Extra field, comment, disk number and attributes stay zero
+    central.setUint32(42, offset, true); // offset of the local header
+    new Uint8Array(central.buffer).set(name, 46);
+    centralDirectory.push(new Uint8Array(central.buffer));
+
+    offset += 30 + name.length + entry.data.length;
+  }
+
+  const directorySize = centralDirectory.reduce(
+    (size, record) => size + record.length,
+    0
+  );
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true); // end of central directory signature
+  end.setUint16(8, entries.length, true); // entries on this disk
+  end.setUint16(10, entries.length, true); // entries in total
+  end.setUint32(12, directorySize, true);
+  end.setUint32(16, offset, true); // offset of the central directory
+
+  return new Blob([...parts, ...centralDirectory, end.buffer], {
+    type: "application/zip",
+  });
+}
@@ -0,0 +1,4 @@
+// React entry point ("progressive-blur/react"), kept apart from index.ts so
+// the main entry works without React installed.
+
+export { ProgressiveBlurImage } from "./components/ProgressiveBlurImage";
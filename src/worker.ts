@@ -1,293 +1,213 @@
-// ***** OPTIMIZED GPU BLUR (WEBGL2) IMPLEMENTATION *****
-// This worker uses OffscreenCanvas + WebGL2 to apply a dynamic blur
-// based on your config. Real-time speeds, no more CPU loop cringe.
+// ***** IMAGE WORKER *****
+// Runs the GPU blur from lib/gpuBlur.ts off the main thread, falls back to
+// the CPU blur without WebGL2 and encodes exports. Owns the on-screen canvas,
+// interactive renders paint into it without pixels crossing threads.
 
-interface BlurConfig {
-  enabled: boolean;
-  startPoint: number;
-  endPoint: number;
-  maxKernelSize: number;
-  easing: 'linear' | 'easeIn' | 'easeOut' | 'easeInOut';
-  blurType: 'linear' | 'gaussian';
-}
+import { BlurConfig, BlurConfigError, BlurMask, isBlurActive, parseBlurConfig } from './lib/blurConfig';
+import { blurImageCPU } from './lib/cpuBlur';
+import { EASING_NAMES } from './lib/easing';
+import { ImageWorkerError, ImageWorkerErrorCode } from './lib/errors';
+import { CoverFit } from './lib/export';
+import { BlurRenderer, createBlurRenderer } from './lib/gpuBlur';
+import { CanvasRegion } from './lib/viewport';
 
 interface WorkerMessage {
+  id?: number;
   imageData?: Uint8ClampedArray;
+  // On-screen canvas, handed over once with transferControlToOffscreen
+  canvas?: OffscreenCanvas;
+  // Image shown on the canvas. Only sent when sourceId changes, the worker
+  // keeps it for the renders after that.
+  source?: ImageBitmap;
+  sourceId?: string;
+  // Where the image is drawn on the canvas and the part of it that gets
+  // blurred, both in canvas pixels
+  fit?: CoverFit;
+  region?: CanvasRegion;
+  // Frame of a live source, transferred instead of copied
+  frame?: ImageBitmap | VideoFrame;
   width?: number;
   height?: number;
-  config?: BlurConfig;
-  type: 'process' | 'getEasings';
+  // Validated with parseBlurConfig before use, the sender may be out of date
+  config?: unknown;
+  mask?: BlurMask;
+  // Identity of the display's mask. It comes with the first render that uses
+  // it, the renders after that only name it.
+  maskKey?: string;
+  // Identity of the source pixels, renders with the same key reuse the upload
+  sourceKey?: string;
+  mimeType?: string;
+  quality?: number;
+  type: 'attach' | 'process' | 'clear' | 'capture' | 'export' | 'encode' | 'live' | 'getEasings';
 }
 
-// For compatibility with the old API
-const easingMap: Record<string, number> = {
-  linear: 0,
-  easeIn: 1,
-  easeOut: 2,
-  easeInOut: 3,
-};
-const blurTypeMap: Record<string, number> = {
-  linear: 0,
-  gaussian: 1,
-};
-
-// Vertex shader (standard fullscreen quad)
-const vertexShaderSource = `#version 300 es
-precision highp float;
-in vec2 a_position;
-in vec2 a_texCoord;
-out vec2 v_texCoord;
-void main(){
-  v_texCoord = a_texCoord;
-  gl_Position = vec4(a_position, 0.0, 1.0);
-}`;
-
-// Fragment shader performing separable blur (direction controlled via uniform)
-// It computes a dynamic kernel size (per-fragment) based on v_texCoord.y and config.
-const fragmentShaderSource = `#version 300 es
-precision highp float;
-in vec2 v_texCoord;
-out vec4 outColor;
-uniform sampler2D u_image;
-uniform vec2 u_resolution;
-uniform vec2 u_direction; // (1,0)=horizontal, (0,1)=vertical
-uniform float u_startPoint;
-uniform float u_endPoint;
-uniform int u_maxKernelSize;
-uniform int u_easing;    // 0: linear, 1: easeIn, 2: easeOut, 3: easeInOut
-uniform int u_blurType;  // 0: linear, 1: gaussian
+// Created on the first render and kept for the lifetime of the worker
+let renderer: BlurRenderer | null = null;
+// Set once WebGL2 turned out to be missing, every later render goes to the CPU
+let useCPUFallback = false;
+// The on-screen canvas and the image drawn on it
+let display: OffscreenCanvasRenderingContext2D | null = null;
+let displaySource: { id: string; bitmap: ImageBitmap } | null = null;
+let displayMask: { key: string; mask?: BlurMask } | null = null;
+// The blurred part of the display before the blur, drawn for the source key
+// in regionKey, and its pixels once the CPU fallback needed them
+let regionCanvas: OffscreenCanvas | null = null;
+let regionKey: string | null = null;
+let regionPixels: Uint8ClampedArray | null = null;
+// Scratch canvas for live frames on the CPU fallback
+let liveCanvas: OffscreenCanvas | null = null;
 
-// Must be >= (u_maxKernelSize-1)/2; we assume maxKernelSize is reasonable (<2001)
-const int MAX_RADIUS = 1000;
+const PLACEHOLDER_COLOR = '#1f2937';
 
-float easingFunc(float x) {
-  if(u_easing == 0) {
-    return x;
-  } else if(u_easing == 1) {
-    return x * x * (2.0 * x - 1.0);
-  } else if(u_easing == 2) {
-    return x * (2.0 - x);
-  } else { // easeInOut
-    return (x < 0.5) ? (2.0 * x * x) : (-1.0 + (4.0 - 2.0 * x) * x);
+// The GPU renderer, or null once WebGL2 turned out to be missing
+function getRenderer(): BlurRenderer | null {
+  if (useCPUFallback) return null;
+  try {
+    return (renderer ??= createBlurRenderer());
+  } catch (err) {
+    if (!(err instanceof ImageWorkerError && err.code === 'webgl-unavailable')) throw err;
+    console.warn("WebGL2 unavailable in the worker, falling back to the CPU blur.");
+    useCPUFallback = true;
+    return null;
   }
 }
 
-void main(){
-  float normalizedY = v_texCoord.y;
-  float kernelSize;
-  if(normalizedY < u_startPoint){
-    kernelSize = 0.0;
-  } else if(normalizedY > u_endPoint){
-    kernelSize = float(u_maxKernelSize);
-  } else {
-    float rangeProgress = (normalizedY - u_startPoint) / (u_endPoint - u_startPoint);
-    float easedProgress = easingFunc(rangeProgress);
-    kernelSize = floor(easedProgress * float(u_maxKernelSize));
-    // Ensure odd kernel size:
-    if(mod(kernelSize, 2.0) < 0.5){
-      kernelSize = kernelSize + 1.0;
-    }
-  }
-  // If no blur, just pass through:
-  if(kernelSize < 1.0){
-    outColor = texture(u_image, v_texCoord);
-    return;
-  }
-  float radius = (kernelSize - 1.0) / 2.0;
-  vec4 color = vec4(0.0);
-  float weightSum = 0.0;
-  float sigma = kernelSize / 6.0;
-  int effectiveRadius = int(radius);
-  for(int i = -MAX_RADIUS; i <= MAX_RADIUS; i++){
-    if(i < -effectiveRadius || i > effectiveRadius) continue;
-    float offset = float(i);
-    float weight = (u_blurType == 0)
-                   ? (1.0 / kernelSize)
-                   : exp(-0.5 * (offset / sigma) * (offset / sigma));
-    vec2 uvOffset = v_texCoord + u_direction * (offset / u_resolution);
-    color += texture(u_image, uvOffset) * weight;
-    weightSum += weight;
-  }
-  outColor = color / weightSum;
-}`;
-
-// Utility: Compile a shader.
-function compileShader(gl: WebGL2RenderingContext, source: string, type: number): WebGLShader {
-  const shader = gl.createShader(type)!;
-  gl.shaderSource(shader, source);
-  gl.compileShader(shader);
-  if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
-    const log = gl.getShaderInfoLog(shader);
-    gl.deleteShader(shader);
-    throw new Error("Shader compile error: " + log);
-  }
-  return shader;
+// Blur on the GPU if possible, otherwise fall back to the (much slower) CPU
+// implementation with the same config semantics
+async function processBlur(
+  imageData: Uint8ClampedArray,
+  width: number,
+  height: number,
+  config: BlurConfig,
+  mask?: BlurMask,
+  sourceKey?: string
+): Promise<Uint8ClampedArray> {
+  const gpu = getRenderer();
+  if (gpu) return gpu.render(imageData, width, height, config, { mask, sourceKey });
+  if (!isBlurActive(config)) return imageData;
+  return blurImageCPU(imageData, width, height, config, mask);
 }
 
-// Utility: Create shader program.
-function createProgram(gl: WebGL2RenderingContext, vsSource: string, fsSource: string): WebGLProgram {
-  const vs = compileShader(gl, vsSource, gl.VERTEX_SHADER);
-  const fs = compileShader(gl, fsSource, gl.FRAGMENT_SHADER);
-  const program = gl.createProgram()!;
-  gl.attachShader(program, vs);
-  gl.attachShader(program, fs);
-  gl.linkProgram(program);
-  if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
-    const log = gl.getProgramInfoLog(program);
-    gl.deleteProgram(program);
-    throw new Error("Program link error: " + log);
+// Resizing clears a canvas, so only do it when the size actually changed
+function resizeCanvas(canvas: OffscreenCanvas, width: number, height: number) {
+  if (canvas.width !== width || canvas.height !== height) {
+    canvas.width = width;
+    canvas.height = height;
   }
-  return program;
-}
-
-// Set up a fullscreen quad.
-function setupQuad(gl: WebGL2RenderingContext, program: WebGLProgram) {
-  const posLoc = gl.getAttribLocation(program, "a_position");
-  const texLoc = gl.getAttribLocation(program, "a_texCoord");
-
-  // Two triangles covering the viewport
-  const vertices = new Float32Array([
-    -1, -1,  0, 0,
-     1, -1,  1, 0,
-    -1,  1,  0, 1,
-    -1,  1,  0, 1,
-     1, -1,  1, 0,
-     1,  1,  1, 1,
-  ]);
-  const vao = gl.createVertexArray()!;
-  gl.bindVertexArray(vao);
-  const buffer = gl.createBuffer()!;
-  gl.bindBuffer(gl.ARRAY_BUFFER, buffer);
-  gl.bufferData(gl.ARRAY_BUFFER, vertices, gl.STATIC_DRAW);
-  gl.enableVertexAttribArray(posLoc);
-  gl.vertexAttribPointer(posLoc, 2, gl.FLOAT, false, 16, 0);
-  gl.enableVertexAttribArray(texLoc);
-  gl.vertexAttribPointer(texLoc, 2, gl.FLOAT, false, 16, 8);
-  gl.bindVertexArray(null);
-  return vao;
 }
 
-// Create a texture from image data.
-function createTexture(gl: WebGL2RenderingContext, width: number, height: number, data: Uint8ClampedArray): WebGLTexture {
-  const texture = gl.createTexture()!;
-  gl.bindTexture(gl.TEXTURE_2D, texture);
-  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
-  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
-  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
-  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
-  gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, width, height, 0,
-                gl.RGBA, gl.UNSIGNED_BYTE, data);
-  return texture;
-}
-
-// Create an empty texture (for framebuffer rendering).
-function createEmptyTexture(gl: WebGL2RenderingContext, width: number, height: number): WebGLTexture {
-  const texture = gl.createTexture()!;
-  gl.bindTexture(gl.TEXTURE_2D, texture);
-  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
-  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
-  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
-  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
-  gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, width, height, 0,
-                gl.RGBA, gl.UNSIGNED_BYTE, null);
-  return texture;
-}
-
-// Render one pass (either horizontal or vertical).
-function renderPass(
-  gl: WebGL2RenderingContext,
-  program: WebGLProgram,
-  vao: WebGLVertexArrayObject,
-  inputTex: WebGLTexture,
-  direction: [number, number],
+// Paint the image onto the on-screen canvas and blur the region of it the
+// config was mapped to. Synchronous on purpose: a message sent after this
+// render, like a clear, can't be painted over by it.
+function renderDisplay(
   width: number,
   height: number,
-  config: BlurConfig
+  fit: CoverFit,
+  region: CanvasRegion,
+  config: BlurConfig,
+  mask?: BlurMask,
+  sourceKey?: string,
+  maskKey?: string
 ) {
-  gl.useProgram(program);
-  gl.bindVertexArray(vao);
+  if (!display) throw new ImageWorkerError('render-failed', "The canvas was not handed to the worker.");
+  if (!displaySource) throw new ImageWorkerError('render-failed', "The image was not sent to the worker.");
+  const { canvas } = display;
+  resizeCanvas(canvas, width, height);
+  display.imageSmoothingEnabled = true;
+  display.imageSmoothingQuality = 'high';
+  // Zoomed out views leave room around the image
+  display.fillStyle = PLACEHOLDER_COLOR;
+  display.fillRect(0, 0, width, height);
+  display.drawImage(displaySource.bitmap, fit.offsetX, fit.offsetY, fit.drawWidth, fit.drawHeight);
+  if (!isBlurActive(config) || region.width === 0 || region.height === 0) return;
 
-  // Set uniforms:
-  const uImage = gl.getUniformLocation(program, "u_image");
-  const uResolution = gl.getUniformLocation(program, "u_resolution");
-  const uDirection = gl.getUniformLocation(program, "u_direction");
-  const uStartPoint = gl.getUniformLocation(program, "u_startPoint");
-  const uEndPoint = gl.getUniformLocation(program, "u_endPoint");
-  const uMaxKernelSize = gl.getUniformLocation(program, "u_maxKernelSize");
-  const uEasing = gl.getUniformLocation(program, "u_easing");
-  const uBlurType = gl.getUniformLocation(program, "u_blurType");
-
-  gl.uniform2f(uResolution, width, height);
-  gl.uniform2f(uDirection, direction[0], direction[1]);
-  gl.uniform1f(uStartPoint, config.startPoint);
-  gl.uniform1f(uEndPoint, config.endPoint);
-  gl.uniform1i(uMaxKernelSize, config.maxKernelSize);
-  gl.uniform1i(uEasing, easingMap[config.easing]);
-  gl.uniform1i(uBlurType, blurTypeMap[config.blurType]);
+  // The blur sees the region exactly as drawn, scaled and all. It's drawn
+  // from the image instead of read from the display, and only for a new
+  // source key: otherwise the GPU still has it uploaded, or the CPU fallback
+  // kept its pixels.
+  regionCanvas ??= new OffscreenCanvas(region.width, region.height);
+  const regionCtx = regionCanvas.getContext('2d', { alpha: false });
+  if (!regionCtx) {
+    throw new Error("OffscreenCanvas 2D context not supported in this environment.");
+  }
+  if (sourceKey === undefined || sourceKey !== regionKey) {
+    resizeCanvas(regionCanvas, region.width, region.height);
+    regionCtx.imageSmoothingEnabled = true;
+    regionCtx.imageSmoothingQuality = 'high';
+    regionCtx.fillStyle = PLACEHOLDER_COLOR;
+    regionCtx.fillRect(0, 0, region.width, region.height);
+    regionCtx.drawImage(displaySource.bitmap, fit.offsetX - region.x, fit.offsetY - region.y, fit.drawWidth, fit.drawHeight);
+    regionKey = sourceKey ?? null;
+    regionPixels = null;
+  }
 
-  // Bind input texture to unit 0.
-  gl.activeTexture(gl.TEXTURE0);
-  gl.bindTexture(gl.TEXTURE_2D, inputTex);
-  gl.uniform1i(uImage, 0);
+  const gpu = getRenderer();
+  if (gpu) {
+    const blurred = gpu.renderToCanvas(regionCanvas, region.width, region.height, config, { mask, sourceKey, maskKey });
+    display.drawImage(blurred, region.x, region.y);
+  } else {
+    regionPixels ??= regionCtx.getImageData(0, 0, region.width, region.height).data;
+    const blurred = blurImageCPU(regionPixels, region.width, region.height, config, mask);
+    display.putImageData(new ImageData(blurred, region.width, region.height), region.x, region.y);
+  }
+}
 
-  gl.drawArrays(gl.TRIANGLES, 0, 6);
-  gl.bindVertexArray(null);
+// Report a failed request to the main thread, which rejects its promise
+function postError(id: number | undefined, err: unknown, fallbackCode: ImageWorkerErrorCode) {
+  const code =
+    err instanceof ImageWorkerError ? err.code :
+    err instanceof BlurConfigError ? 'invalid-config' :
+    fallbackCode;
+  const message = err instanceof Error ? err.message : String(err);
+  self.postMessage({ type: 'error', id, code, message });
 }
 
-// Main GPU blur function
-async function processBlurGPU(
+// Encode raw pixels into an image file without touching the main thread
+async function encodeImage(
   imageData: Uint8ClampedArray,
   width: number,
   height: number,
-  config: BlurConfig
-): Promise<Uint8ClampedArray> {
-  if (!config.enabled) return imageData; // short-circuit if blur’s off
-
+  mimeType: string,
+  quality?: number
+): Promise<Blob> {
   const offscreen = new OffscreenCanvas(width, height);
-  const gl = offscreen.getContext("webgl2") as WebGL2RenderingContext;
-  if (!gl) {
-    throw new Error("WebGL2 not supported in this environment.");
+  const ctx = offscreen.getContext('2d');
+  if (!ctx) {
+    throw new Error("OffscreenCanvas 2D context not supported in this environment.");
   }
-  gl.viewport(0, 0, width, height);
-
-  // Create our program and quad
-  const program = createProgram(gl, vertexShaderSource, fragmentShaderSource);
-  const vao = setupQuad(gl, program);
-
-  // Create textures:
-  const originalTex = createTexture(gl, width, height, imageData);
-  const tempTex = createEmptyTexture(gl, width, height);
-  const finalTex = createEmptyTexture(gl, width, height);
-
-  // Create framebuffer:
-  const fb = gl.createFramebuffer()!;
-
-  // --- Pass 1: Horizontal blur ---
-  gl.bindFramebuffer(gl.FRAMEBUFFER, fb);
-  gl.framebufferTexture2D(gl.FRAMEBUFFER, gl.COLOR_ATTACHMENT0, gl.TEXTURE_2D, tempTex, 0);
-  gl.clearColor(0,0,0,0);
-  gl.clear(gl.COLOR_BUFFER_BIT);
-  renderPass(gl, program, vao, originalTex, [1, 0], width, height, config);
-
-  // --- Pass 2: Vertical blur ---
-  gl.framebufferTexture2D(gl.FRAMEBUFFER, gl.COLOR_ATTACHMENT0, gl.TEXTURE_2D, finalTex, 0);
-  gl.clear(gl.COLOR_BUFFER_BIT);
-  renderPass(gl, program, vao, tempTex, [0, 1], width, height, config);
+  ctx.putImageData(new ImageData(imageData, width, height), 0, 0);
+  return offscreen.convertToBlob({ type: mimeType, quality });
+}
 
-  // Read pixels from finalTex:
-  const pixels = new Uint8Array(width * height * 4);
-  gl.bindFramebuffer(gl.FRAMEBUFFER, fb);
-  gl.readPixels(0, 0, width, height, gl.RGBA, gl.UNSIGNED_BYTE, pixels);
+// Blur a live frame and hand it back as a bitmap the main thread can draw
+// right away. The frame was transferred for this render only, so it gets
+// closed here or, if the render fails, by the message handler.
+function renderLiveFrame(frame: ImageBitmap | VideoFrame, config: BlurConfig) {
+  const width = 'displayWidth' in frame ? frame.displayWidth : frame.width;
+  const height = 'displayHeight' in frame ? frame.displayHeight : frame.height;
 
-  // Cleanup (optional but based)
-  gl.deleteTexture(originalTex);
-  gl.deleteTexture(tempTex);
-  gl.deleteTexture(finalTex);
-  gl.deleteFramebuffer(fb);
-  gl.deleteVertexArray(vao);
-  gl.deleteProgram(program);
+  // On the GPU the frame is uploaded as is and the result never leaves it.
+  // Every frame is new, so there is no source key to reuse an upload with.
+  const gpu = isBlurActive(config) ? getRenderer() : null;
+  if (gpu) {
+    const blurred = gpu.renderToCanvas(frame, width, height, config);
+    frame.close();
+    return blurred.transferToImageBitmap();
+  }
 
-  return new Uint8ClampedArray(pixels);
+  liveCanvas ??= new OffscreenCanvas(width, height);
+  resizeCanvas(liveCanvas, width, height);
+  const ctx = liveCanvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) {
+    throw new Error("OffscreenCanvas 2D context not supported in this environment.");
+  }
+  ctx.drawImage(frame, 0, 0, width, height);
+  frame.close();
+  if (isBlurActive(config)) {
+    const pixels = ctx.getImageData(0, 0, width, height).data;
+    ctx.putImageData(new ImageData(blurImageCPU(pixels, width, height, config), width, height), 0, 0);
+  }
+  return liveCanvas.transferToImageBitmap();
 }
 
 // Worker message handler
@@ -295,16 +215,127 @@ self.onmessage = async (e: MessageEvent<WorkerMessage>) => {
   const { type } = e.data;
   switch (type) {
     case 'getEasings':
-      self.postMessage({ type: 'easings', easings: Object.keys(easingMap) });
+      self.postMessage({ type: 'easings', easings: EASING_NAMES });
+      break;
+    case 'attach':
+      if (e.data.canvas) display = e.data.canvas.getContext('2d', { alpha: false });
       break;
     case 'process': {
-      const { imageData, width, height, config } = e.data;
-      if (!imageData || !width || !height || !config) return;
+      const { id, source, sourceId, width, height, fit, region, config, mask, maskKey, sourceKey } = e.data;
+      if (source && sourceId !== undefined) {
+        displaySource?.bitmap.close();
+        displaySource = { id: sourceId, bitmap: source };
+      }
+      // A new key without a mask is an empty one, like no mask at all
+      if (maskKey !== undefined && (mask || maskKey !== displayMask?.key)) {
+        displayMask = { key: maskKey, mask };
+      }
+      // Every request gets an answer, or its promise and the render queue
+      // behind it would wait forever
+      if (!width || !height || !fit || !region) {
+        postError(id, new Error("Render request without a canvas size or region."), 'render-failed');
+        return;
+      }
       try {
-        const processedData = await processBlurGPU(imageData, width, height, config);
-        self.postMessage({ type: 'processed', processedData });
+        const start = performance.now();
+        const renderMask = maskKey !== undefined ? displayMask?.mask : undefined;
+        renderDisplay(width, height, fit, region, parseBlurConfig(config), renderMask, sourceKey, maskKey);
+        // Replies carry the request id, so the hook can tell which request
+        // finished even when several overlap
+        self.postMessage({
+          type: 'processed',
+          id,
+          duration: performance.now() - start,
+          renderer: useCPUFallback ? 'cpu' : 'gpu',
+        });
       } catch (err) {
         console.error("Blur processing failed:", err);
+        postError(id, err, 'render-failed');
+      }
+      break;
+    }
+    case 'clear': {
+      // Nothing to show, drop the image and mask and fill the canvas
+      const { width, height } = e.data;
+      displaySource?.bitmap.close();
+      displaySource = null;
+      displayMask = null;
+      regionKey = null;
+      if (!display || !width || !height) return;
+      resizeCanvas(display.canvas, width, height);
+      display.fillStyle = PLACEHOLDER_COLOR;
+      display.fillRect(0, 0, width, height);
+      break;
+    }
+    case 'capture': {
+      // Pixels of the canvas as shown, for exports of the view
+      const { id } = e.data;
+      if (!display) {
+        postError(id, new Error("The canvas was not handed to the worker."), 'render-failed');
+        return;
+      }
+      const { width, height } = display.canvas;
+      const processedData = display.getImageData(0, 0, width, height).data;
+      self.postMessage({ type: 'captured', id, processedData, width, height }, { transfer: [processedData.buffer] });
+      break;
+    }
+    case 'export': {
+      const { id, imageData, width, height, config, mask } = e.data;
+      if (!imageData || !width || !height) {
+        postError(id, new Error("Export request without image data."), 'render-failed');
+        return;
+      }
+      try {
+        const start = performance.now();
+        const processedData = await processBlur(imageData, width, height, parseBlurConfig(config), mask);
+        self.postMessage({
+          type: 'exported',
+          id,
+          processedData,
+          duration: performance.now() - start,
+          renderer: useCPUFallback ? 'cpu' : 'gpu',
+        });
+      } catch (err) {
+        console.error("Blur processing failed:", err);
+        postError(id, err, 'render-failed');
+      }
+      break;
+    }
+    case 'live': {
+      const { id, frame, config } = e.data;
+      if (!frame) {
+        postError(id, new Error("Live request without a frame."), 'render-failed');
+        return;
+      }
+      try {
+        const start = performance.now();
+        const bitmap = renderLiveFrame(frame, parseBlurConfig(config));
+        self.postMessage({
+          type: 'rendered',
+          id,
+          bitmap,
+          duration: performance.now() - start,
+          renderer: useCPUFallback ? 'cpu' : 'gpu',
+        }, { transfer: [bitmap] });
+      } catch (err) {
+        frame.close();
+        console.error("Live frame processing failed:", err);
+        postError(id, err, 'render-failed');
+      }
+      break;
+    }
+    case 'encode': {
+      const { id, imageData, width, height, mimeType, quality } = e.data;
+      if (!imageData || !width || !height || !mimeType) {
+        postError(id, new Error("Encode request without image data or format."), 'encode-failed');
+        return;
+      }
+      try {
+        const blob = await encodeImage(imageData, width, height, mimeType, quality);
+        self.postMessage({ type: 'encoded', id, blob });
+      } catch (err) {
+        console.error("Image encoding failed:", err);
+        postError(id, err, 'encode-failed');
       }
       break;
     }
@@ -0,0 +1,114 @@
+import { copyFile, mkdir, mkdtemp, rm, stat } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { readImage } from "../cli/image";
+import { runCli } from "../cli/run";
+import { MASK_MODE_NAMES } from "../src/lib/blurConfig";
+import { EASING_NAMES } from "../src/lib/easing";
+
+// The CLI's output for every mask mode and easing, compared against golden
+// images committed next to this file. After an intended change to the blur,
+// rewrite them with UPDATE_GOLDEN=1 npm test and look at the new images
+// before committing them.
+
+const FIXTURES = fileURLToPath(new URL("fixtures", import.meta.url));
+const GOLDEN = fileURLToPath(new URL("golden", import.meta.url));
+const INPUT = path.join(FIXTURES, "checker.png");
+const MASK = path.join(FIXTURES, "mask.png");
+const UPDATE = process.env.UPDATE_GOLDEN === "1";
+
+// Largest difference allowed per channel, leaves room for floating point
+// differences between platforms
+const TOLERANCE = 1;
+
+// Small kernel, so the blur stays local enough to show the ramp
+const COMMON_ARGS = ["--kernel", "15"];
+
+const CASES = [
+  ...MASK_MODE_NAMES.map((mode) => ({
+    name: `mask-${mode}`,
+    args: [
+      "--mask",
+      mode,
+      ...(mode === "custom" ? ["--mask-image", MASK] : []),
+    ],
+  })),
+  ...EASING_NAMES.map((easing) => ({
+    name: `easing-${easing}`,
+    args: [
+      "--easing",
+      easing,
+      "--start",
+      "0.1",
+      "--end",
+      "0.9",
+      // Not the default curve, which is close to easeInOut
+      ...(easing === "cubicBezier" ? ["--bezier", "0.1,0.7,0.3,1"] : []),
+    ],
+  })),
+];
+
+async function exists(file: string) {
+  return stat(file).then(
+    () => true,
+    () => false
+  );
+}
+
+describe("CLI golden images", () => {
+  let outDir: string;
+
+  beforeAll(async () => {
+    outDir = await mkdtemp(path.join(os.tmpdir(), "progressive-blur-"));
+    vi.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterAll(async () => {
+    vi.restoreAllMocks();
+    await rm(outDir, { recursive: true, force: true });
+  });
+
+  it.each(CASES)("$name", async ({ name, args }) => {
+    await runCli([
+      INPUT,
+      "-o",
+      outDir,
+      "--name",
+      name,
+      ...COMMON_ARGS,
+      ...args,
+    ]);
+    const outFile = path.join(outDir, `${name}.png`);
+    const goldenFile = path.join(GOLDEN, `${name}.png`);
+
+    if (UPDATE) {
+      await mkdir(GOLDEN, { recursive: true });
+      await copyFile(outFile, goldenFile);
+      return;
+    }
+    if (!(await exists(goldenFile))) {
+      throw new Error(
+        `Missing golden image ${goldenFile}, create it with UPDATE_GOLDEN=1.`
+      );
+    }
+
+    const [actual, expected] = await Promise.all([
+      readImage(outFile),
+      readImage(goldenFile),
+    ]);
+    expect([actual.width, actual.height]).toEqual([
+      expected.width,
+      expected.height,
+    ]);
+    let maxDifference = 0;
+    for (let i = 0; i < actual.data.length; i++) {
+      maxDifference = Math.max(
+        maxDifference,
+        Math.abs(actual.data[i] - expected.data[i])
+      );
+    }
+    expect(maxDifference).toBeLessThanOrEqual(TOLERANCE);
+  });
+});
@@ -0,0 +1,174 @@
+import { fileURLToPath } from "node:url";
+import { describe, expect, it } from "vitest";
+import { readImage, RawImage } from "../cli/image";
+import { BlurConfig, DEFAULT_BLUR_CONFIG } from "../src/lib/blurConfig";
+import { blurImageCPU, getKernelSizes } from "../src/lib/cpuBlur";
+import {
+  DOWNSAMPLE_TAPS,
+  FilterTap,
+  getFilterWeight,
+  getPyramidLevelCount,
+  getPyramidLod,
+  TENT_TAPS,
+} from "../src/lib/pyramid";
+
+// Checks the pyramid algorithm, not the shipped shaders: there is no WebGL in
+// Node, so this runs the filters, level count and level selection from
+// lib/pyramid.ts on the CPU, the same ones gpuBlur.ts builds its shaders
+// from. Changes to those show up here, changes to the GLSL around them
+// (sampling, trilinear filtering) don't. The result is compared against the
+// CPU blur, which matches the exact backend.
+
+const INPUT = fileURLToPath(new URL("fixtures/checker.png", import.meta.url));
+
+interface Level {
+  data: Float32Array;
+  width: number;
+  height: number;
+}
+
+// Normalized weighted sum of a filter's taps
+function filter(
+  taps: readonly FilterTap[],
+  sample: (dx: number, dy: number) => number
+) {
+  let sum = 0;
+  for (const [dx, dy, weight] of taps) sum += sample(dx, dy) * weight;
+  return sum / getFilterWeight(taps);
+}
+
+// Bilinear lookup with CLAMP_TO_EDGE at texture coordinates u, v
+function sampleLevel(level: Level, u: number, v: number, channel: number) {
+  const { data, width, height } = level;
+  const x = Math.min(Math.max(u * width - 0.5, 0), width - 1);
+  const y = Math.min(Math.max(v * height - 0.5, 0), height - 1);
+  const x0 = Math.floor(x);
+  const y0 = Math.floor(y);
+  const x1 = Math.min(x0 + 1, width - 1);
+  const y1 = Math.min(y0 + 1, height - 1);
+  const at = (px: number, py: number) => data[(py * width + px) * 4 + channel];
+  const top = at(x0, y0) + (at(x1, y0) - at(x0, y0)) * (x - x0);
+  const bottom = at(x0, y1) + (at(x1, y1) - at(x0, y1)) * (x - x0);
+  return top + (bottom - top) * (y - y0);
+}
+
+// Mip levels of the image, every level stored as RGBA8 like the texture
+function buildPyramid(image: RawImage) {
+  const levels: Level[] = [
+    {
+      data: Float32Array.from(image.data),
+      width: image.width,
+      height: image.height,
+    },
+  ];
+  const count = getPyramidLevelCount(image.width, image.height);
+  for (let i = 1; i < count; i++) {
+    const source = levels[i - 1];
+    const width = Math.max(1, image.width >> i);
+    const height = Math.max(1, image.height >> i);
+    const data = new Float32Array(width * height * 4);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const u = (x + 0.5) / width;
+        const v = (y + 0.5) / height;
+        for (let c = 0; c < 4; c++) {
+          const sum = filter(DOWNSAMPLE_TAPS, (dx, dy) =>
+            sampleLevel(
+              source,
+              u + dx / source.width,
+              v + dy / source.height,
+              c
+            )
+          );
+          data[(y * width + x) * 4 + c] = Math.round(sum);
+        }
+      }
+    }
+    levels.push({ data, width, height });
+  }
+  return levels;
+}
+
+// textureLod() with LINEAR_MIPMAP_LINEAR filtering
+function sampleLod(
+  levels: Level[],
+  u: number,
+  v: number,
+  lod: number,
+  channel: number
+) {
+  const lower = Math.floor(lod);
+  const upper = Math.min(lower + 1, levels.length - 1);
+  const a = sampleLevel(levels[lower], u, v, channel);
+  const b = sampleLevel(levels[upper], u, v, channel);
+  return a + (b - a) * (lod - lower);
+}
+
+function blurPyramid(image: RawImage, config: BlurConfig) {
+  const { width, height } = image;
+  const levels = buildPyramid(image);
+  const kernelSizes = getKernelSizes(width, height, config);
+  const output = new Uint8ClampedArray(image.data.length);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const index = y * width + x;
+      const kernelSize = kernelSizes[index];
+      if (kernelSize <= 1) {
+        output.set(image.data.subarray(index * 4, index * 4 + 4), index * 4);
+        continue;
+      }
+      const lod = getPyramidLod(
+        kernelSize,
+        config.blurType === "linear" ? "linear" : "gaussian",
+        levels.length - 1
+      );
+      const level = levels[Math.floor(lod)];
+      const u = (x + 0.5) / width;
+      const v = (y + 0.5) / height;
+      for (let c = 0; c < 4; c++) {
+        output[index * 4 + c] = filter(TENT_TAPS, (dx, dy) =>
+          sampleLod(levels, u + dx / level.width, v + dy / level.height, lod, c)
+        );
+      }
+    }
+  }
+  return output;
+}
+
+// Difference to the exact blur this reference reaches on the checkerboard,
+// out of 255, plus a step for rounding differences between platforms. Hard
+// edges are the pyramid's worst case, so single pixels are off by a lot more
+// than the average.
+const CASES = [
+  { blurType: "linear", maxKernelSize: 15, max: 32, mean: 2.2 },
+  { blurType: "linear", maxKernelSize: 63, max: 49, mean: 3.75 },
+  { blurType: "gaussian", maxKernelSize: 15, max: 43, mean: 1.35 },
+  { blurType: "gaussian", maxKernelSize: 63, max: 35, mean: 1.5 },
+] as const;
+
+describe("pyramid backend", () => {
+  it.each(CASES)(
+    "stays close to the exact $blurType blur up to $maxKernelSize px",
+    async ({ blurType, maxKernelSize, max, mean }) => {
+      const image = await readImage(INPUT);
+      const config: BlurConfig = {
+        ...DEFAULT_BLUR_CONFIG,
+        blurType,
+        maxKernelSize,
+      };
+      const exact = blurImageCPU(image.data, image.width, image.height, config);
+      const pyramid = blurPyramid(image, config);
+
+      let maxDifference = 0;
+      let totalDifference = 0;
+      for (let i = 0; i < exact.length; i++) {
+        const difference = Math.abs(exact[i] - pyramid[i]);
+        maxDifference = Math.max(maxDifference, difference);
+        totalDifference += difference;
+      }
+      expect(maxDifference).toBeLessThanOrEqual(max);
+      expect(totalDifference / exact.length).toBeLessThanOrEqual(mean);
+    }
+  );
+});
@@ -0,0 +1,17 @@
+import { defineConfig } from 'vite';
+
+// Bundles the headless CLI for Node, dependencies stay external
+export default defineConfig({
+  build: {
+    ssr: 'cli/index.ts',
+    outDir: 'dist-cli',
+    target: 'node18',
+    // public/ holds the app's static files, the CLI has no use for them
+    copyPublicDir: false,
+    rollupOptions: {
+      output: {
+        entryFileNames: 'progressive-blur.js',
+      },
+    },
+  },
+});
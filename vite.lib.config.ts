@@ -0,0 +1,23 @@
+import react from '@vitejs/plugin-react';
+import { defineConfig } from 'vite';
+
+// Builds the library entries for other apps: src/index.ts without React and
+// src/react.ts with the component, React stays a peer
+export default defineConfig({
+  plugins: [react()],
+  build: {
+    outDir: 'dist-lib',
+    copyPublicDir: false,
+    lib: {
+      entry: {
+        'progressive-blur': 'src/index.ts',
+        react: 'src/react.ts',
+      },
+      formats: ['es'],
+      fileName: (_format, entryName) => `${entryName}.js`,
+    },
+    rollupOptions: {
+      external: ['react', 'react-dom', 'react/jsx-runtime'],
+    },
+  },
+});